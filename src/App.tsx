@@ -1,36 +1,59 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import AuthProvider from "./components/AuthProvider";
+import I18nProvider from "./components/I18nProvider";
+import ThemeProvider from "./components/ThemeProvider";
+import RequireAuth from "./components/RequireAuth";
 import Layout from "./components/Layout";
 import Dashboard from "./pages/Dashboard";
 import Auth from "./pages/Auth";
+import AuthReset from "./pages/AuthReset";
 import Courses from "./pages/Courses";
 import CoursesNew from "./pages/CoursesNew";
 import CourseDetail from "./pages/CourseDetail";
+import NoteEditor from "./pages/NoteEditor";
 import Notes from "./pages/Notes";
+import Search from "./pages/Search";
+import Trash from "./pages/Trash";
+import Settings from "./pages/Settings";
+import Share from "./pages/Share";
 import NotFound from "./pages/NotFound";
-
-const queryClient = new QueryClient();
+import { queryClient } from "./lib/query-client";
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/auth" element={<Auth />} />
-          <Route path="/" element={<Layout><Dashboard /></Layout>} />
-          <Route path="/courses" element={<Layout><Courses /></Layout>} />
-          <Route path="/courses/new" element={<Layout><CoursesNew /></Layout>} />
-          <Route path="/courses/:id" element={<Layout><CourseDetail /></Layout>} />
-          <Route path="/notes" element={<Layout><Notes /></Layout>} />
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <AuthProvider>
+      <ThemeProvider>
+        <I18nProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <BrowserRouter>
+              <Routes>
+                <Route path="/auth" element={<Auth />} />
+                <Route path="/auth/reset" element={<AuthReset />} />
+                <Route element={<RequireAuth />}>
+                  <Route path="/" element={<Layout><Dashboard /></Layout>} />
+                  <Route path="/courses" element={<Layout><Courses /></Layout>} />
+                  <Route path="/courses/new" element={<Layout><CoursesNew /></Layout>} />
+                  <Route path="/courses/:id" element={<Layout><CourseDetail /></Layout>} />
+                  <Route path="/courses/:id/notes/:noteId" element={<Layout><NoteEditor /></Layout>} />
+                  <Route path="/notes" element={<Layout><Notes /></Layout>} />
+                  <Route path="/search" element={<Layout><Search /></Layout>} />
+                  <Route path="/trash" element={<Layout><Trash /></Layout>} />
+                  <Route path="/settings" element={<Layout><Settings /></Layout>} />
+                  <Route path="/share" element={<Layout><Share /></Layout>} />
+                </Route>
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </BrowserRouter>
+          </TooltipProvider>
+        </I18nProvider>
+      </ThemeProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
@@ -0,0 +1,73 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Session } from "@supabase/supabase-js";
+import { useQueryClient } from "@tanstack/react-query";
+import { AuthContext, type AuthState } from "@/hooks/use-auth";
+import { useRealtimeSync } from "@/hooks/use-realtime-sync";
+import { useOfflineSync } from "@/hooks/use-offline-sync";
+import { clearOfflineData } from "@/lib/offline-db";
+
+interface AuthProviderProps {
+  children: React.ReactNode;
+}
+
+// Single subscription to the auth state for the whole app.
+export default function AuthProvider({ children }: AuthProviderProps) {
+  const [state, setState] = useState<AuthState>({
+    session: null,
+    user: null,
+    loading: true,
+    mfaRequired: false,
+  });
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const resolveSession = async (session: Session | null) => {
+      let mfaRequired = false;
+      if (session) {
+        const { data } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+        mfaRequired = data?.nextLevel === 'aal2' && data.currentLevel !== 'aal2';
+      }
+
+      if (!cancelled) {
+        setState({
+          session,
+          user: session?.user ?? null,
+          loading: false,
+          mfaRequired,
+        });
+      }
+    };
+
+    // Fires with INITIAL_SESSION right away, so no getSession call is needed.
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(
+      (event, session) => {
+        // Cached data belongs to the account that was signed in.
+        if (event === 'SIGNED_OUT') {
+          queryClient.clear();
+          clearOfflineData().catch(() => undefined);
+        }
+        // Auth calls must not be awaited inside the listener itself.
+        setTimeout(() => resolveSession(session), 0);
+      }
+    );
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [queryClient]);
+
+  // Row level security hides every row until the second factor is verified.
+  const syncedUserId = state.mfaRequired ? undefined : state.user?.id;
+  useRealtimeSync(syncedUserId);
+  useOfflineSync(syncedUserId);
+
+  return (
+    <AuthContext.Provider value={state}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
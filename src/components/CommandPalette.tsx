@@ -0,0 +1,168 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { defaultFilter } from "cmdk";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from "@/components/ui/command";
+import {
+  BookOpen,
+  FileText,
+  History,
+  LogOut,
+  Plus,
+  Upload
+} from "lucide-react";
+import { useCourses } from "@/hooks/use-courses";
+import { useNotes } from "@/hooks/use-course-notes";
+import { useI18n } from "@/hooks/use-i18n";
+import { useThemePreference } from "@/hooks/use-theme-preference";
+import { readableCourseColor } from "@/lib/utils";
+import { getRecentItems, type RecentItem } from "@/lib/recent";
+
+interface CommandPaletteProps {
+  onSignOut: () => void;
+}
+
+// Items use unique ids as values; matching is done on their keywords only.
+const filterByKeywords = (value: string, search: string, keywords?: string[]) =>
+  defaultFilter((keywords || []).join(' '), search);
+
+export default function CommandPalette({ onSignOut }: CommandPaletteProps) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const { data: courses = [] } = useCourses({ enabled: open });
+  const { data: notes = [] } = useNotes({ enabled: open });
+  const [recentItems, setRecentItems] = useState<RecentItem[]>([]);
+  const { resolvedTheme } = useThemePreference();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen((current) => !current);
+      }
+    };
+
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setRecentItems(getRecentItems());
+  }, [open]);
+
+  const run = (action: () => void) => {
+    setOpen(false);
+    action();
+  };
+
+  const courseTitle = (courseId: string) =>
+    courses.find(course => course.id === courseId)?.title || '';
+
+  return (
+    <CommandDialog open={open} onOpenChange={setOpen} filter={filterByKeywords}>
+      <CommandInput placeholder={t('palette.placeholder')} />
+      <CommandList>
+        <CommandEmpty>{t('search.noResults')}</CommandEmpty>
+
+        {recentItems.length > 0 && (
+          <CommandGroup heading={t('palette.recent')}>
+            {recentItems.map((item) => (
+              <CommandItem
+                key={`recent-${item.kind}-${item.id}`}
+                value={`recent-${item.kind}-${item.id}`}
+                keywords={[item.title]}
+                onSelect={() => run(() => navigate(item.href))}
+              >
+                <History className="mr-2" />
+                {item.title}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        <CommandGroup heading={t('palette.actions')}>
+          <CommandItem
+            value="action-new-course"
+            keywords={[t('common.newCourse'), t('palette.createKeyword')]}
+            onSelect={() => run(() => navigate('/courses/new'))}
+          >
+            <Plus className="mr-2" />
+            {t('common.newCourse')}
+          </CommandItem>
+          {courses.map((course) => (
+            <CommandItem
+              key={`new-note-${course.id}`}
+              value={`action-new-note-${course.id}`}
+              keywords={[t('palette.newNote', { course: course.title }), t('palette.createKeyword')]}
+              onSelect={() => run(() => navigate(`/courses/${course.id}?newNote=1`))}
+            >
+              <Plus className="mr-2" />
+              {t('palette.newNote', { course: course.title })}
+            </CommandItem>
+          ))}
+          {courses.map((course) => (
+            <CommandItem
+              key={`upload-${course.id}`}
+              value={`action-upload-${course.id}`}
+              keywords={[t('palette.upload', { course: course.title }), t('palette.fileKeyword')]}
+              onSelect={() => run(() => navigate(`/courses/${course.id}?tab=files&upload=1`))}
+            >
+              <Upload className="mr-2" />
+              {t('palette.upload', { course: course.title })}
+            </CommandItem>
+          ))}
+          <CommandItem
+            value="action-sign-out"
+            keywords={[t('layout.signOut'), t('palette.signOutKeyword')]}
+            onSelect={() => run(onSignOut)}
+          >
+            <LogOut className="mr-2" />
+            {t('layout.signOut')}
+          </CommandItem>
+        </CommandGroup>
+
+        <CommandSeparator />
+
+        <CommandGroup heading={t('palette.courses')}>
+          {courses.map((course) => (
+            <CommandItem
+              key={course.id}
+              value={`course-${course.id}`}
+              keywords={[course.title]}
+              onSelect={() => run(() => navigate(`/courses/${course.id}`))}
+            >
+              <BookOpen className="mr-2" style={{ color: course.color ? readableCourseColor(course.color, resolvedTheme) : undefined }} />
+              {course.title}
+            </CommandItem>
+          ))}
+        </CommandGroup>
+
+        <CommandGroup heading={t('nav.notes')}>
+          {notes.map((note) => (
+            <CommandItem
+              key={note.id}
+              value={`note-${note.id}`}
+              keywords={[note.title, courseTitle(note.course_id)]}
+              onSelect={() => run(() => navigate(`/courses/${note.course_id}/notes/${note.id}`))}
+            >
+              <FileText className="mr-2" />
+              <span className="truncate">{note.title}</span>
+              <CommandShortcut>{courseTitle(note.course_id)}</CommandShortcut>
+            </CommandItem>
+          ))}
+        </CommandGroup>
+      </CommandList>
+    </CommandDialog>
+  );
+}
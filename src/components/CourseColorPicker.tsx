@@ -0,0 +1,29 @@
+import { courseColors } from "@/lib/utils";
+
+interface CourseColorPickerProps {
+  value: string;
+  onChange: (color: string) => void;
+}
+
+export default function CourseColorPicker({ value, onChange }: CourseColorPickerProps) {
+  return (
+    <div className="grid grid-cols-6 gap-3">
+      {courseColors.map((color, index) => (
+        <button
+          key={`${color}-${index}`}
+          type="button"
+          aria-label={color}
+          className={`
+            w-10 h-10 rounded-lg border-2 transition-all hover:scale-110
+            ${value === color 
+              ? 'border-foreground shadow-glow' 
+              : 'border-transparent hover:border-muted-foreground'
+            }
+          `}
+          style={{ backgroundColor: color }}
+          onClick={() => onChange(color)}
+        />
+      ))}
+    </div>
+  );
+}
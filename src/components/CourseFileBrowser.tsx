@@ -0,0 +1,447 @@
+import { Fragment, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Download,
+  Eye,
+  File,
+  Folder,
+  FolderInput,
+  FolderPlus,
+  History,
+  MoreVertical,
+  Pencil,
+  Trash2
+} from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useI18n } from "@/hooks/use-i18n";
+import { useUpdateFile, type CourseFile } from "@/hooks/use-course-files";
+import {
+  flattenFolders,
+  getFolderPath,
+  isFolderInside,
+  useCreateFolder,
+  useUpdateFolder,
+  type CourseFolder,
+} from "@/hooks/use-course-folders";
+import { getDraggedItem, isDraggingItem, setDraggedItem, type DraggedItem } from "@/lib/file-drag";
+import type { MessageKey } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+import NameDialog from "@/components/NameDialog";
+import DeleteFolderDialog from "@/components/DeleteFolderDialog";
+import FileVersionsDialog from "@/components/FileVersionsDialog";
+
+// Postgres error raised by the unique name of a folder within its parent.
+const UNIQUE_VIOLATION = '23505';
+
+interface CourseFileBrowserProps {
+  courseId: string;
+  folders: CourseFolder[];
+  // Every file of the course; only those of the open folder are listed.
+  files: CourseFile[];
+  folderId: string | null;
+  onOpenFolder: (folderId: string | null) => void;
+  onPreview: (file: CourseFile) => void;
+  onDownload: (file: CourseFile) => void;
+  onDelete: (file: CourseFile) => void;
+}
+
+type NameDialogState =
+  | { mode: 'createFolder' }
+  | { mode: 'renameFolder'; folder: CourseFolder }
+  | { mode: 'renameFile'; file: CourseFile };
+
+const NAME_ERRORS: Record<NameDialogState['mode'], MessageKey> = {
+  createFolder: 'folders.createError',
+  renameFolder: 'folders.renameError',
+  renameFile: 'files.renameError',
+};
+
+// Lists the subfolders and files of the open folder. Files and folders can
+// be dragged onto a folder or a breadcrumb, or moved from their menu, which
+// also gives access to renaming and, for files, versions.
+export default function CourseFileBrowser({
+  courseId,
+  folders,
+  files,
+  folderId,
+  onOpenFolder,
+  onPreview,
+  onDownload,
+  onDelete
+}: CourseFileBrowserProps) {
+  const { user } = useAuth();
+  const { t, formatDate, formatFileSize } = useI18n();
+  const createFolder = useCreateFolder();
+  const updateFolder = useUpdateFolder();
+  const updateFile = useUpdateFile();
+  const [nameDialog, setNameDialog] = useState<NameDialogState | null>(null);
+  const [folderToDelete, setFolderToDelete] = useState<CourseFolder | null>(null);
+  // Looked up in `files` so the dialog follows new and restored versions.
+  const [versionsFileId, setVersionsFileId] = useState<string | null>(null);
+  // Folder hovered while dragging, 'root' for the course itself.
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const path = getFolderPath(folders, folderId);
+  const subfolders = folders.filter(folder => folder.parent_id === folderId);
+  const folderFiles = files.filter(file => file.folder_id === folderId);
+  const destinations = flattenFolders(folders);
+
+  const reportError = (error: unknown, fallback: MessageKey) => {
+    toast({
+      variant: "destructive",
+      title: t('common.error'),
+      description: (error as { code?: string })?.code === UNIQUE_VIOLATION
+        ? t('folders.nameTaken')
+        : t(fallback),
+    });
+  };
+
+  const saveName = async (name: string) => {
+    try {
+      if (nameDialog.mode === 'createFolder') {
+        await createFolder.mutateAsync({
+          course_id: courseId,
+          user_id: user.id,
+          parent_id: folderId,
+          name
+        });
+      } else if (nameDialog.mode === 'renameFolder') {
+        await updateFolder.mutateAsync({ id: nameDialog.folder.id, changes: { name } });
+      } else {
+        await updateFile.mutateAsync({ id: nameDialog.file.id, changes: { filename: name } });
+      }
+    } catch (error) {
+      reportError(error, NAME_ERRORS[nameDialog.mode]);
+      throw error;
+    }
+  };
+
+  const canMoveTo = (item: DraggedItem, targetId: string | null) => {
+    if (item.kind === 'file') {
+      const file = files.find(candidate => candidate.id === item.id);
+      return !!file && file.folder_id !== targetId;
+    }
+    const folder = folders.find(candidate => candidate.id === item.id);
+    return !!folder &&
+      folder.parent_id !== targetId &&
+      !isFolderInside(folders, targetId, folder.id);
+  };
+
+  const moveTo = async (item: DraggedItem, targetId: string | null) => {
+    if (!canMoveTo(item, targetId)) return;
+
+    try {
+      if (item.kind === 'file') {
+        await updateFile.mutateAsync({ id: item.id, changes: { folder_id: targetId } });
+      } else {
+        await updateFolder.mutateAsync({ id: item.id, changes: { parent_id: targetId } });
+      }
+    } catch (error) {
+      reportError(error, 'folders.moveError');
+    }
+  };
+
+  // Props making an element a drop target for the folder (null for root).
+  const dropProps = (targetId: string | null) => {
+    const key = targetId ?? 'root';
+    return {
+      onDragOver: (e: React.DragEvent) => {
+        if (!isDraggingItem(e.dataTransfer)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        setDropTarget(key);
+      },
+      onDragLeave: (e: React.DragEvent) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+          setDropTarget(current => (current === key ? null : current));
+        }
+      },
+      onDrop: (e: React.DragEvent) => {
+        const item = getDraggedItem(e.dataTransfer);
+        if (!item) return;
+        e.preventDefault();
+        setDropTarget(null);
+        moveTo(item, targetId);
+      },
+    };
+  };
+
+  const dragProps = (item: DraggedItem) => ({
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => setDraggedItem(e.dataTransfer, item),
+    onDragEnd: () => setDropTarget(null),
+  });
+
+  const moveMenuItems = (item: DraggedItem) => (
+    <>
+      <DropdownMenuItem disabled={!canMoveTo(item, null)} onSelect={() => moveTo(item, null)}>
+        <Folder className="h-4 w-4 mr-2" />
+        {t('folders.root')}
+      </DropdownMenuItem>
+      {destinations.map(({ folder, depth }) => (
+        <DropdownMenuItem
+          key={folder.id}
+          disabled={!canMoveTo(item, folder.id)}
+          onSelect={() => moveTo(item, folder.id)}
+          style={{ paddingLeft: `${1.5 + depth}rem` }}
+        >
+          <Folder className="h-4 w-4 mr-2" />
+          {folder.name}
+        </DropdownMenuItem>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <Breadcrumb>
+          <BreadcrumbList>
+            {[null, ...path].map((folder, index) => {
+              const id = folder?.id ?? null;
+              const name = folder?.name ?? t('folders.root');
+              const current = index === path.length;
+
+              return (
+                <Fragment key={id ?? 'root'}>
+                  {index > 0 && <BreadcrumbSeparator />}
+                  <BreadcrumbItem
+                    {...dropProps(id)}
+                    className={cn(
+                      "rounded px-1",
+                      dropTarget === (id ?? 'root') && "bg-primary/10 ring-2 ring-primary"
+                    )}
+                  >
+                    {current ? (
+                      <BreadcrumbPage>{name}</BreadcrumbPage>
+                    ) : (
+                      <BreadcrumbLink asChild>
+                        <button type="button" onClick={() => onOpenFolder(id)}>{name}</button>
+                      </BreadcrumbLink>
+                    )}
+                  </BreadcrumbItem>
+                </Fragment>
+              );
+            })}
+          </BreadcrumbList>
+        </Breadcrumb>
+        <Button variant="outline" size="sm" onClick={() => setNameDialog({ mode: 'createFolder' })}>
+          <FolderPlus className="h-4 w-4 mr-2" />
+          {t('folders.new')}
+        </Button>
+      </div>
+
+      {subfolders.length === 0 && folderFiles.length === 0 ? (
+        <Card className="shadow-card border-0">
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <File className="h-16 w-16 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">
+              {folderId ? t('folders.empty') : t('courseDetail.noFiles')}
+            </h3>
+            <p className="text-muted-foreground text-center mb-6">
+              {folderId ? t('folders.emptyDescription') : t('courseDetail.noFilesDescription')}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {subfolders.map((folder) => (
+            <Card
+              key={folder.id}
+              {...dragProps({ kind: 'folder', id: folder.id })}
+              {...dropProps(folder.id)}
+              className={cn(
+                "shadow-card border-0",
+                dropTarget === folder.id && "bg-primary/10 ring-2 ring-primary"
+              )}
+            >
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between">
+                  <button
+                    type="button"
+                    className="flex items-center space-x-3 text-left"
+                    onClick={() => onOpenFolder(folder.id)}
+                  >
+                    <Folder className="h-8 w-8 text-primary" />
+                    <div>
+                      <h4 className="font-medium hover:underline">{folder.name}</h4>
+                      <p className="text-sm text-muted-foreground">
+                        {t('common.files', {
+                          count: files.filter(file => isFolderInside(folders, file.folder_id, folder.id)).length
+                        })}
+                      </p>
+                    </div>
+                  </button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="icon" aria-label={t('folders.actions')}>
+                        <MoreVertical className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onSelect={() => setNameDialog({ mode: 'renameFolder', folder })}>
+                        <Pencil className="h-4 w-4 mr-2" />
+                        {t('folders.rename')}
+                      </DropdownMenuItem>
+                      <DropdownMenuSub>
+                        <DropdownMenuSubTrigger>
+                          <FolderInput className="h-4 w-4 mr-2" />
+                          {t('folders.moveTo')}
+                        </DropdownMenuSubTrigger>
+                        <DropdownMenuSubContent>
+                          {moveMenuItems({ kind: 'folder', id: folder.id })}
+                        </DropdownMenuSubContent>
+                      </DropdownMenuSub>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem
+                        className="text-destructive focus:text-destructive"
+                        onSelect={() => setFolderToDelete(folder)}
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        {t('folders.delete')}
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+
+          {folderFiles.map((file) => (
+            <Card key={file.id} {...dragProps({ kind: 'file', id: file.id })} className="shadow-card border-0">
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    <File className="h-8 w-8 text-primary" />
+                    <div>
+                      <h4 className="font-medium">
+                        <button
+                          type="button"
+                          className="text-left hover:underline"
+                          onClick={() => onPreview(file)}
+                        >
+                          {file.filename}
+                        </button>
+                      </h4>
+                      <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+                        <span>{formatFileSize(file.file_size)}</span>
+                        <span>•</span>
+                        <span>{formatDate(file.created_at)}</span>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      aria-label={t('preview.open')}
+                      onClick={() => onPreview(file)}
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      aria-label={t('preview.download')}
+                      onClick={() => onDownload(file)}
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="icon" aria-label={t('files.actions')}>
+                          <MoreVertical className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onSelect={() => setNameDialog({ mode: 'renameFile', file })}>
+                          <Pencil className="h-4 w-4 mr-2" />
+                          {t('files.rename')}
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onSelect={() => setVersionsFileId(file.id)}>
+                          <History className="h-4 w-4 mr-2" />
+                          {t('versions.menu')}
+                        </DropdownMenuItem>
+                        <DropdownMenuSub>
+                          <DropdownMenuSubTrigger>
+                            <FolderInput className="h-4 w-4 mr-2" />
+                            {t('folders.moveTo')}
+                          </DropdownMenuSubTrigger>
+                          <DropdownMenuSubContent>
+                            {moveMenuItems({ kind: 'file', id: file.id })}
+                          </DropdownMenuSubContent>
+                        </DropdownMenuSub>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          className="text-destructive focus:text-destructive"
+                          onSelect={() => onDelete(file)}
+                        >
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          {t('files.delete')}
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <NameDialog
+        open={!!nameDialog}
+        onOpenChange={(open) => !open && setNameDialog(null)}
+        title={
+          nameDialog?.mode === 'renameFile' ? t('files.renameTitle')
+            : nameDialog?.mode === 'renameFolder' ? t('folders.renameTitle')
+            : t('folders.new')
+        }
+        label={nameDialog?.mode === 'renameFile' ? t('files.name') : t('folders.name')}
+        confirmLabel={nameDialog?.mode === 'createFolder' ? t('folders.create') : t('folders.rename')}
+        defaultName={
+          nameDialog?.mode === 'renameFile' ? nameDialog.file.filename
+            : nameDialog?.mode === 'renameFolder' ? nameDialog.folder.name
+            : ''
+        }
+        onSubmit={saveName}
+      />
+
+      <FileVersionsDialog
+        file={files.find(file => file.id === versionsFileId) ?? null}
+        onClose={() => setVersionsFileId(null)}
+      />
+
+      <DeleteFolderDialog
+        folder={folderToDelete}
+        folders={folders}
+        files={files}
+        onClose={() => setFolderToDelete(null)}
+        onDeleted={(folder) => {
+          // Leave the deleted folder if it was open, or one of its subfolders.
+          if (isFolderInside(folders, folderId, folder.id)) onOpenFolder(folder.parent_id);
+        }}
+      />
+    </div>
+  );
+}
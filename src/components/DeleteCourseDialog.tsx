@@ -0,0 +1,129 @@
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Loader2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/use-i18n";
+import { useCourseNotes } from "@/hooks/use-course-notes";
+import { useCourseFiles } from "@/hooks/use-course-files";
+import { useMoveToTrash, useRestoreFromTrash } from "@/hooks/use-trash";
+import { execute } from "@/lib/undo";
+
+interface DeleteCourseDialogProps {
+  course: {
+    id: string;
+    title: string;
+  };
+  onDeleted?: () => void;
+  onRestored?: () => void;
+  children: React.ReactNode;
+}
+
+interface DeletionPreview {
+  notes: number;
+  files: number;
+  totalSize: number;
+}
+
+export default function DeleteCourseDialog({ course, onDeleted, onRestored, children }: DeleteCourseDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const { t, formatFileSize } = useI18n();
+
+  const { data: notes, isError: notesError } = useCourseNotes(course.id, { enabled: open });
+  const { data: files, isError: filesError } = useCourseFiles(course.id, { enabled: open });
+  const moveToTrash = useMoveToTrash();
+  const restoreFromTrash = useRestoreFromTrash();
+
+  const preview: DeletionPreview | null = notes && files
+    ? {
+        notes: notes.length,
+        files: files.length,
+        totalSize: files.reduce((total, file) => total + (file.file_size || 0), 0)
+      }
+    : null;
+
+  const deleteCourse = async (e: React.MouseEvent) => {
+    // Keep the dialog open until the deletion has completed.
+    e.preventDefault();
+    setDeleting(true);
+
+    try {
+      await execute({
+        title: t('deleteCourse.trashed'),
+        description: t('deleteCourse.trashedDescription', { title: course.title }),
+        run: async () => {
+          await moveToTrash.mutateAsync({ table: 'courses', id: course.id });
+          setOpen(false);
+          onDeleted?.();
+        },
+        undo: async () => {
+          await restoreFromTrash.mutateAsync({ table: 'courses', id: course.id });
+          onRestored?.();
+        },
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('deleteCourse.error'),
+      });
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={(next) => !deleting && setOpen(next)}>
+      <AlertDialogTrigger asChild>
+        {children}
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{t('deleteCourse.title', { title: course.title })}</AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <div className="space-y-2">
+              <p>{t('deleteCourse.description')}</p>
+              {notesError || filesError ? (
+                <p className="text-sm">{t('deleteCourse.previewError')}</p>
+              ) : preview ? (
+                <ul className="list-disc pl-5">
+                  <li>{t('common.notes', { count: preview.notes })}</li>
+                  <li>
+                    {t('common.files', { count: preview.files })}
+                    {preview.files > 0 && ` (${formatFileSize(preview.totalSize)})`}
+                  </li>
+                </ul>
+              ) : (
+                <div className="flex items-center text-sm">
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  {t('deleteCourse.previewLoading')}
+                </div>
+              )}
+            </div>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={deleting}>{t('common.cancel')}</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={deleteCourse}
+            disabled={deleting || !preview}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('deleteCourse.confirm')}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/use-i18n";
+import { isFolderInside, useDeleteFolder, type CourseFolder } from "@/hooks/use-course-folders";
+import type { CourseFile } from "@/hooks/use-course-files";
+
+interface DeleteFolderDialogProps {
+  // The folder to delete, or null when the dialog is closed.
+  folder: CourseFolder | null;
+  folders: CourseFolder[];
+  files: CourseFile[];
+  onClose: () => void;
+  onDeleted?: (folder: CourseFolder) => void;
+}
+
+// Folders are not trashed themselves, so deleting one cannot be undone;
+// the files it holds go to the trash and can be restored from there.
+export default function DeleteFolderDialog({ folder, folders, files, onClose, onDeleted }: DeleteFolderDialogProps) {
+  const { t } = useI18n();
+  const [deleting, setDeleting] = useState(false);
+  const deleteFolder = useDeleteFolder();
+
+  const fileCount = folder
+    ? files.filter(file => isFolderInside(folders, file.folder_id, folder.id)).length
+    : 0;
+
+  const handleDelete = async (e: React.MouseEvent) => {
+    // Keep the dialog open until the deletion has completed.
+    e.preventDefault();
+    setDeleting(true);
+
+    try {
+      await deleteFolder.mutateAsync(folder);
+      toast({
+        title: t('folders.deleted'),
+        description: t('folders.deletedDescription', { count: fileCount }),
+      });
+      onDeleted?.(folder);
+      onClose();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('folders.deleteError'),
+      });
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={!!folder} onOpenChange={(open) => !open && !deleting && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{t('folders.deleteTitle', { name: folder?.name })}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {t('folders.deleteDescription', { count: fileCount })}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={deleting}>{t('common.cancel')}</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleDelete}
+            disabled={deleting}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('folders.delete')}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
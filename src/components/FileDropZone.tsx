@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { FolderUp, Upload } from "lucide-react";
+import { useI18n } from "@/hooks/use-i18n";
+import { getDroppedFiles, getPickedFiles, type PickedFile } from "@/lib/dropped-files";
+import { isDraggingItem } from "@/lib/file-drag";
+import { cn } from "@/lib/utils";
+
+interface FileDropZoneProps {
+  onFiles: (files: PickedFile[]) => void;
+  // Id of the file input, so other parts of the app can open the picker.
+  inputId?: string;
+}
+
+export default function FileDropZone({ onFiles, inputId = "file-upload" }: FileDropZoneProps) {
+  const [dragging, setDragging] = useState(false);
+  const { t } = useI18n();
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    const files = await getDroppedFiles(e.dataTransfer);
+    if (files.length > 0) onFiles(files);
+  };
+
+  const handlePick = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = getPickedFiles(e.target.files);
+    // Picking the same files again must fire a change.
+    e.target.value = '';
+    if (files.length > 0) onFiles(files);
+  };
+
+  return (
+    <div
+      className={cn(
+        "flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed p-8 text-center",
+        dragging ? "border-primary bg-primary/5" : "border-border"
+      )}
+      onDragOver={(e) => {
+        // Files moved between folders are not uploads.
+        if (isDraggingItem(e.dataTransfer)) return;
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={(e) => {
+        // Moving over a child element also fires dragleave.
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setDragging(false);
+      }}
+      onDrop={handleDrop}
+    >
+      <Upload className="h-10 w-10 text-muted-foreground" />
+      <div>
+        <p className="font-medium">{t('upload.dropHere')}</p>
+        <p className="text-sm text-muted-foreground">{t('upload.dropHint')}</p>
+      </div>
+      <div className="flex flex-wrap justify-center gap-2">
+        <input
+          type="file"
+          id={inputId}
+          className="hidden"
+          multiple
+          onChange={handlePick}
+        />
+        <input
+          type="file"
+          id={`${inputId}-folder`}
+          className="hidden"
+          ref={(input) => input?.setAttribute('webkitdirectory', '')}
+          onChange={handlePick}
+        />
+        <Button
+          type="button"
+          onClick={() => document.getElementById(inputId)?.click()}
+          className="bg-gradient-accent hover:opacity-90 shadow-glow"
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          {t('upload.pickFiles')}
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => document.getElementById(`${inputId}-folder`)?.click()}
+        >
+          <FolderUp className="h-4 w-4 mr-2" />
+          {t('upload.pickFolder')}
+        </Button>
+      </div>
+    </div>
+  );
+}
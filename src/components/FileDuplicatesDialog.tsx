@@ -0,0 +1,125 @@
+import { Link } from "react-router-dom";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CopyCheck, Loader2, Trash2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/use-i18n";
+import { useDuplicateReport, type DuplicateFile } from "@/hooks/use-course-files";
+import { useMoveToTrash, useRestoreFromTrash } from "@/hooks/use-trash";
+import { execute } from "@/lib/undo";
+
+interface FileDuplicatesDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Files of the whole account that have the same content, the ones taking
+// the most space first. Extra copies can be trashed from here.
+export default function FileDuplicatesDialog({ open, onClose }: FileDuplicatesDialogProps) {
+  const { t, formatFileSize } = useI18n();
+  const { data: groups = [], isLoading } = useDuplicateReport({ enabled: open });
+  const moveToTrash = useMoveToTrash();
+  const restoreFromTrash = useRestoreFromTrash();
+  const wasted = groups.reduce((total, group) => total + group.wastedSize, 0);
+
+  const trashFile = async (file: DuplicateFile) => {
+    try {
+      await execute({
+        title: t('courseDetail.fileTrashed'),
+        description: t('courseDetail.fileTrashedDescription'),
+        run: async () => {
+          await moveToTrash.mutateAsync({ table: 'course_files', id: file.id });
+        },
+        undo: async () => {
+          await restoreFromTrash.mutateAsync({ table: 'course_files', id: file.id });
+        },
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('courseDetail.fileDeleteError'),
+      });
+    }
+  };
+
+  const fileLink = (file: DuplicateFile) =>
+    `/courses/${file.course_id}?tab=files${file.folder_id ? `&folder=${file.folder_id}` : ''}`;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('duplicates.title')}</DialogTitle>
+          <DialogDescription>{t('duplicates.description')}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : groups.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 p-6 text-center text-muted-foreground">
+            <CopyCheck className="h-8 w-8" />
+            <p>{t('duplicates.none')}</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm font-medium">
+              {t('duplicates.wasted', { size: formatFileSize(wasted) })}
+            </p>
+            {groups.map(group => (
+              <div key={group.contentHash} className="rounded-lg border">
+                <div className="flex items-center justify-between gap-2 border-b bg-muted/50 px-3 py-2 text-sm">
+                  <span className="font-medium">
+                    {t('duplicates.copies', { count: group.files.length })}
+                  </span>
+                  <span className="text-muted-foreground">{formatFileSize(group.fileSize)}</span>
+                </div>
+                <ul className="divide-y">
+                  {group.files.map((file, index) => (
+                    <li key={file.id} className="flex items-center justify-between gap-2 p-3">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="truncate font-medium" title={file.filename}>
+                            {file.filename}
+                          </span>
+                          {group.files.slice(0, index).some(other => other.file_path === file.file_path) && (
+                            <Badge variant="secondary">{t('duplicates.linked')}</Badge>
+                          )}
+                        </div>
+                        <Link
+                          to={fileLink(file)}
+                          onClick={onClose}
+                          className="text-sm text-muted-foreground hover:text-primary hover:underline"
+                        >
+                          {file.courses.title}
+                        </Link>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="shrink-0"
+                        aria-label={t('files.delete')}
+                        onClick={() => trashFile(file)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,236 @@
+import { Suspense, lazy, useEffect, useMemo, useState } from "react";
+import hljs from "highlight.js/lib/common";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight, Download, Loader2, ZoomIn, ZoomOut } from "lucide-react";
+import MarkdownRenderer from "@/components/MarkdownRenderer";
+import { useI18n } from "@/hooks/use-i18n";
+import { useFileText, useSignedFileUrl, type CourseFile } from "@/hooks/use-course-files";
+import { getCodeLanguage, getPreviewKind } from "@/lib/file-preview";
+
+// pdf.js is large, so it is only loaded once a PDF is opened.
+const PdfPreview = lazy(() => import("@/components/PdfPreview"));
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.5, 2, 3, 4];
+
+interface FilePreviewDialogProps {
+  files: CourseFile[];
+  // Id of the file shown, or null when the dialog is closed. The dialog
+  // closes when that file leaves the list.
+  fileId: string | null;
+  onFileChange: (fileId: string | null) => void;
+  onDownload: (file: CourseFile) => void;
+}
+
+function Spinner() {
+  return (
+    <div className="flex h-full items-center justify-center">
+      <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+    </div>
+  );
+}
+
+function ImagePreview({ url, alt }: { url: string; alt: string }) {
+  const { t } = useI18n();
+  const [zoom, setZoom] = useState(1);
+  const level = ZOOM_LEVELS.indexOf(zoom);
+
+  return (
+    <div className="flex h-full flex-col gap-3">
+      <div className="min-h-0 flex-1 overflow-auto rounded-md bg-muted">
+        {/* At 100% the image fits the dialog; zooming in scrolls. */}
+        <img
+          src={url}
+          alt={alt}
+          className={zoom === 1 ? "mx-auto max-h-full max-w-full object-contain" : "mx-auto max-w-none"}
+          style={zoom === 1 ? undefined : { width: `${zoom * 100}%` }}
+        />
+      </div>
+      <div className="flex items-center justify-center gap-2">
+        <Button
+          variant="outline"
+          size="icon"
+          aria-label={t('preview.zoomOut')}
+          disabled={level === 0}
+          onClick={() => setZoom(ZOOM_LEVELS[level - 1])}
+        >
+          <ZoomOut className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="sm" className="w-16" onClick={() => setZoom(1)}>
+          {Math.round(zoom * 100)} %
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          aria-label={t('preview.zoomIn')}
+          disabled={level === ZOOM_LEVELS.length - 1}
+          onClick={() => setZoom(ZOOM_LEVELS[level + 1])}
+        >
+          <ZoomIn className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function TextPreview({ file }: { file: CourseFile }) {
+  const { t } = useI18n();
+  const kind = getPreviewKind(file);
+  const { data: text, isLoading, isError } = useFileText(file);
+
+  // highlight.js escapes the source, so its markup is safe to inject.
+  const highlighted = useMemo(() => {
+    const language = getCodeLanguage(file.filename);
+    if (kind !== 'code' || !text || !hljs.getLanguage(language)) return undefined;
+    return hljs.highlight(text, { language }).value;
+  }, [kind, text, file.filename]);
+
+  if (isLoading) return <Spinner />;
+  if (isError) {
+    return <p className="py-12 text-center text-muted-foreground">{t('preview.loadError')}</p>;
+  }
+
+  return (
+    <div className="h-full overflow-auto rounded-md border p-4">
+      {kind === 'markdown' ? (
+        <MarkdownRenderer content={text} />
+      ) : highlighted ? (
+        <pre className="text-sm">
+          <code className="hljs bg-transparent p-0" dangerouslySetInnerHTML={{ __html: highlighted }} />
+        </pre>
+      ) : (
+        <pre className="whitespace-pre-wrap break-words text-sm">{text}</pre>
+      )}
+    </div>
+  );
+}
+
+function PreviewBody({ file, onDownload }: { file: CourseFile; onDownload: () => void }) {
+  const { t } = useI18n();
+  const kind = getPreviewKind(file);
+  const textual = kind === 'markdown' || kind === 'code' || kind === 'text';
+  // Text is downloaded directly; the rest is streamed from a signed URL.
+  const { data: url, isError } = useSignedFileUrl(kind && !textual ? file : undefined);
+
+  if (!kind) {
+    return (
+      <div className="flex h-full flex-col items-center justify-center gap-4 text-center">
+        <p className="text-muted-foreground">{t('preview.unsupported')}</p>
+        <Button variant="outline" onClick={onDownload}>
+          <Download className="h-4 w-4 mr-2" />
+          {t('preview.download')}
+        </Button>
+      </div>
+    );
+  }
+  if (textual) return <TextPreview file={file} />;
+  if (isError) {
+    return <p className="py-12 text-center text-muted-foreground">{t('preview.loadError')}</p>;
+  }
+  if (!url) return <Spinner />;
+
+  switch (kind) {
+    case 'pdf':
+      return (
+        <Suspense fallback={<Spinner />}>
+          <PdfPreview url={url} />
+        </Suspense>
+      );
+    case 'image':
+      return <ImagePreview url={url} alt={file.filename} />;
+    case 'audio':
+      return (
+        <div className="flex h-full items-center justify-center">
+          <audio src={url} controls autoPlay className="w-full max-w-xl" />
+        </div>
+      );
+    case 'video':
+      return <video src={url} controls autoPlay className="h-full w-full rounded-md bg-black" />;
+  }
+}
+
+// Previews the files of a course one at a time; the left and right arrow
+// keys move to the previous and next file.
+export default function FilePreviewDialog({ files, fileId, onFileChange, onDownload }: FilePreviewDialogProps) {
+  const { t, formatFileSize } = useI18n();
+  // Looked up by id, as the list can change while a file is shown.
+  const index = files.findIndex(candidate => candidate.id === fileId);
+  const file = files[index];
+  const showFile = (position: number) => onFileChange(files[position].id);
+
+  // Moved or deleted meanwhile: the dialog stays closed if it comes back.
+  useEffect(() => {
+    if (fileId !== null && index === -1) onFileChange(null);
+  }, [fileId, index, onFileChange]);
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    // Media players seek with the arrow keys.
+    if ((event.target as HTMLElement).closest('audio, video')) return;
+
+    if (event.key === 'ArrowLeft' && index > 0) {
+      event.preventDefault();
+      showFile(index - 1);
+    } else if (event.key === 'ArrowRight' && index < files.length - 1) {
+      event.preventDefault();
+      showFile(index + 1);
+    }
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && onFileChange(null)}>
+      <DialogContent
+        className="flex h-[90vh] max-w-5xl flex-col"
+        onKeyDown={handleKeyDown}
+      >
+        {file && (
+          <>
+            <DialogHeader className="pr-8">
+              <div className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <DialogTitle className="truncate">{file.filename}</DialogTitle>
+                  <DialogDescription>
+                    {t('preview.position', { index: index + 1, total: files.length })}
+                    {' · '}
+                    {formatFileSize(file.file_size)}
+                  </DialogDescription>
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    aria-label={t('preview.previous')}
+                    disabled={index === 0}
+                    onClick={() => showFile(index - 1)}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    aria-label={t('preview.next')}
+                    disabled={index === files.length - 1}
+                    onClick={() => showFile(index + 1)}
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    aria-label={t('preview.download')}
+                    onClick={() => onDownload(file)}
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </DialogHeader>
+            <div className="min-h-0 flex-1">
+              {/* Keyed so zoom and page state start over for each file. */}
+              <PreviewBody key={file.id} file={file} onDownload={() => onDownload(file)} />
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
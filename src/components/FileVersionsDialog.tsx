@@ -0,0 +1,306 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Copy, Download, History, Link2, Loader2, RotateCcw, Upload } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/use-i18n";
+import {
+  findDuplicateFiles,
+  preferredDuplicate,
+  useFileVersions,
+  useLinkFileVersion,
+  useRestoreFileVersion,
+  useUploadFileVersion,
+  type CourseFile,
+  type CourseFileVersion,
+  type DuplicateFile,
+} from "@/hooks/use-course-files";
+import { hashFile } from "@/lib/file-hash";
+import { downloadFromStorage } from "@/lib/storage-download";
+
+// A picked version whose content is already stored in another file.
+interface DuplicateVersion {
+  upload: File;
+  contentHash: string;
+  existing: DuplicateFile;
+}
+
+interface FileVersionsDialogProps {
+  // The file whose versions are shown, or null when the dialog is closed.
+  file: CourseFile | null;
+  onClose: () => void;
+}
+
+// Lists the current and previous contents of a file. A new version can be
+// uploaded, and any previous one downloaded or made current again. A new
+// version already stored elsewhere can be linked instead of uploaded.
+export default function FileVersionsDialog({ file, onClose }: FileVersionsDialogProps) {
+  const { t, formatDate, formatFileSize } = useI18n();
+  const { data: versions = [], isLoading } = useFileVersions(file?.id);
+  const uploadVersion = useUploadFileVersion();
+  const linkVersion = useLinkFileVersion();
+  const restoreVersion = useRestoreFileVersion();
+  const [checking, setChecking] = useState(false);
+  const [duplicate, setDuplicate] = useState<DuplicateVersion | null>(null);
+  const [linking, setLinking] = useState(false);
+  // Progress of the upload in progress, from 0 to 1.
+  const [progress, setProgress] = useState<number | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const busy = checking || linking || progress !== null || restoringId !== null;
+
+  const download = async (path: string) => {
+    try {
+      await downloadFromStorage('course-files', path, file.filename);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('courseDetail.fileDownloadError'),
+      });
+    }
+  };
+
+  const uploadError = () => {
+    toast({
+      variant: "destructive",
+      title: t('common.error'),
+      description: t('versions.uploadError'),
+    });
+  };
+
+  const handlePick = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const upload = e.target.files?.[0];
+    // Picking the same file again must fire a change.
+    e.target.value = '';
+    if (!upload) return;
+
+    setDuplicate(null);
+    setChecking(true);
+    let contentHash: string;
+    let duplicates: DuplicateFile[];
+    try {
+      contentHash = await hashFile(upload);
+      duplicates = await findDuplicateFiles(contentHash);
+    } catch (error) {
+      uploadError();
+      return;
+    } finally {
+      setChecking(false);
+    }
+
+    if (duplicates.some(other => other.id === file.id)) {
+      toast({ title: t('versions.identical') });
+    } else if (duplicates.length > 0) {
+      setDuplicate({ upload, contentHash, existing: preferredDuplicate(duplicates, file.course_id) });
+    } else {
+      await handleUpload(upload, contentHash);
+    }
+  };
+
+  const handleUpload = async (upload: File, contentHash: string) => {
+    setDuplicate(null);
+    setProgress(0);
+    try {
+      await uploadVersion.mutateAsync({ file, upload, contentHash, onProgress: setProgress });
+      toast({ title: t('versions.uploaded') });
+    } catch (error) {
+      uploadError();
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleLink = async (source: DuplicateFile) => {
+    setLinking(true);
+    try {
+      await linkVersion.mutateAsync({ file, source });
+      setDuplicate(null);
+      toast({ title: t('versions.uploaded') });
+    } catch (error) {
+      uploadError();
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  const restore = async (version: CourseFileVersion) => {
+    setRestoringId(version.id);
+    try {
+      await restoreVersion.mutateAsync(version);
+      toast({
+        title: t('versions.restored'),
+        description: t('versions.restoredDescription'),
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('versions.restoreError'),
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Dialog
+      open={!!file}
+      onOpenChange={(open) => {
+        if (open || busy) return;
+        setDuplicate(null);
+        onClose();
+      }}
+    >
+      <DialogContent className="max-w-2xl">
+        {file && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{t('versions.title', { name: file.filename })}</DialogTitle>
+              <DialogDescription>{t('versions.description')}</DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <input
+                type="file"
+                id="file-version-upload"
+                className="hidden"
+                onChange={handlePick}
+              />
+              <Button
+                variant="outline"
+                disabled={busy}
+                onClick={() => document.getElementById('file-version-upload')?.click()}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                {t('versions.upload')}
+              </Button>
+              {checking && (
+                <p className="flex items-center text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  {t('upload.status.hashing')}
+                </p>
+              )}
+              {duplicate && (
+                <div className="space-y-2 rounded-lg border border-warning/50 p-3">
+                  <p className="flex items-center text-sm text-warning">
+                    <Copy className="h-4 w-4 mr-2 shrink-0" />
+                    {duplicate.existing.course_id === file.course_id
+                      ? t('upload.duplicateInCourse', { name: duplicate.existing.filename })
+                      : t('upload.duplicateInOtherCourse', {
+                          name: duplicate.existing.filename,
+                          course: duplicate.existing.courses.title,
+                        })}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busy}
+                      onClick={() => handleLink(duplicate.existing)}
+                    >
+                      {linking ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Link2 className="h-4 w-4 mr-2" />
+                      )}
+                      {t('upload.link')}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={busy}
+                      onClick={() => handleUpload(duplicate.upload, duplicate.contentHash)}
+                    >
+                      {t('upload.uploadAnyway')}
+                    </Button>
+                    <Button variant="ghost" size="sm" disabled={busy} onClick={() => setDuplicate(null)}>
+                      {t('common.cancel')}
+                    </Button>
+                  </div>
+                </div>
+              )}
+              {progress !== null && (
+                <div className="space-y-1">
+                  <p className="text-sm text-muted-foreground">
+                    {t('versions.uploading', { percent: Math.round(progress * 100) })}
+                  </p>
+                  <Progress value={progress * 100} className="h-1.5" />
+                </div>
+              )}
+            </div>
+
+            <ul className="divide-y rounded-lg border">
+              <li className="flex items-center justify-between gap-2 p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{formatDate(file.uploaded_at, 'PPp')}</span>
+                    <Badge variant="secondary">{t('versions.current')}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{formatFileSize(file.file_size)}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={t('preview.download')}
+                  onClick={() => download(file.file_path)}
+                >
+                  <Download className="h-4 w-4" />
+                </Button>
+              </li>
+              {isLoading ? (
+                <li className="flex justify-center p-3">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </li>
+              ) : versions.length === 0 ? (
+                <li className="flex items-center gap-2 p-3 text-sm text-muted-foreground">
+                  <History className="h-4 w-4" />
+                  {t('versions.none')}
+                </li>
+              ) : (
+                versions.map((version) => (
+                  <li key={version.id} className="flex items-center justify-between gap-2 p-3">
+                    <div className="min-w-0">
+                      <p className="font-medium">{formatDate(version.created_at, 'PPp')}</p>
+                      <p className="text-sm text-muted-foreground">{formatFileSize(version.file_size)}</p>
+                    </div>
+                    <div className="flex shrink-0 items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={t('preview.download')}
+                        onClick={() => download(version.file_path)}
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={busy}
+                        onClick={() => restore(version)}
+                      >
+                        {restoringId === version.id ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                        )}
+                        {t('versions.restore')}
+                      </Button>
+                    </div>
+                  </li>
+                ))
+              )}
+            </ul>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
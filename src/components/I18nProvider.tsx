@@ -0,0 +1,71 @@
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useProfile, useUpdateProfile } from "@/hooks/use-profile";
+import { I18nContext, type I18nState } from "@/hooks/use-i18n";
+import {
+  formatDate,
+  formatFileSize,
+  getStoredLocale,
+  isLocale,
+  storeLocale,
+  translate,
+  type Locale,
+} from "@/lib/i18n";
+
+interface I18nProviderProps {
+  children: React.ReactNode;
+}
+
+// The profile's language follows the user across devices; the copy kept on
+// this device covers the time before it loads and the signed-out pages.
+export default function I18nProvider({ children }: I18nProviderProps) {
+  const [locale, setLocaleState] = useState<Locale>(getStoredLocale);
+  const { user } = useAuth();
+  const { profile } = useProfile();
+  const { mutate: updateProfile } = useUpdateProfile();
+
+  const preferredLanguage = profile?.preferred_language;
+
+  useEffect(() => {
+    if (isLocale(preferredLanguage)) {
+      setLocaleState(preferredLanguage);
+      storeLocale(preferredLanguage);
+    }
+  }, [preferredLanguage]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    storeLocale(next);
+
+    if (user) {
+      updateProfile({ preferred_language: next }, {
+        onError: () => {
+          toast({
+            variant: "destructive",
+            title: translate(next, 'common.error'),
+            description: translate(next, 'locale.saveError'),
+          });
+        },
+      });
+    }
+  }, [user, updateProfile]);
+
+  const value = useMemo<I18nState>(() => ({
+    locale,
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+    formatDate: (date, pattern) => formatDate(locale, date, pattern),
+    formatFileSize: (bytes) => formatFileSize(locale, bytes),
+  }), [locale, setLocale]);
+
+  return (
+    <I18nContext.Provider value={value}>
+      {children}
+    </I18nContext.Provider>
+  );
+}
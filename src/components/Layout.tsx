@@ -2,6 +2,8 @@ import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { 
   GraduationCap, 
   Home, 
@@ -10,75 +12,79 @@ import {
   Settings, 
   LogOut,
   Menu,
+  Search,
+  Trash2,
   X
 } from "lucide-react";
-import { Session } from "@supabase/supabase-js";
 import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useProfile } from "@/hooks/use-profile";
+import CommandPalette from "@/components/CommandPalette";
+import SyncStatus from "@/components/SyncStatus";
+import LocaleSwitcher from "@/components/LocaleSwitcher";
+import ThemeToggle from "@/components/ThemeToggle";
+import { useI18n } from "@/hooks/use-i18n";
+import { undoLast } from "@/lib/undo";
 
 interface LayoutProps {
   children: React.ReactNode;
 }
 
 export default function Layout({ children }: LayoutProps) {
-  const [session, setSession] = useState<Session | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [searchTerm, setSearchTerm] = useState("");
+  const { user } = useAuth();
+  const { profile } = useProfile();
+  const { t } = useI18n();
   const navigate = useNavigate();
 
+  // Ctrl/Cmd+Z reverts the last destructive action while its toast is shown,
+  // unless the user is typing in a field.
   useEffect(() => {
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      (event, session) => {
-        console.log('Auth state changed:', event, !!session);
-        setSession(session);
-        if (!session && event !== 'INITIAL_SESSION') {
-          navigate('/auth');
-        }
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      const editing = target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+      if (!editing && e.key.toLowerCase() === 'z' && (e.metaKey || e.ctrlKey) && !e.shiftKey) {
+        e.preventDefault();
+        undoLast();
       }
-    );
+    };
 
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      console.log('Initial session check:', !!session);
-      setSession(session);
-      if (!session) {
-        navigate('/auth');
-      }
-    });
-
-    return () => subscription.unsubscribe();
-  }, [navigate]);
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, []);
 
   const signOut = async () => {
     const { error } = await supabase.auth.signOut();
     if (error) {
       toast({
         variant: "destructive",
-        title: "Erreur",
-        description: "Impossible de se déconnecter",
+        title: t('common.error'),
+        description: t('layout.signOutError'),
       });
     }
   };
 
-  if (!session) {
-    return (
-      <div className="min-h-screen bg-gradient-bg flex items-center justify-center">
-        <div className="text-center">
-          <div className="bg-gradient-primary p-3 rounded-2xl shadow-glow mb-4 mx-auto w-fit">
-            <GraduationCap className="h-8 w-8 text-white animate-pulse" />
-          </div>
-          <p className="text-muted-foreground">Chargement...</p>
-        </div>
-      </div>
-    );
-  }
+  const submitSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!searchTerm.trim()) return;
+    navigate(`/search?q=${encodeURIComponent(searchTerm.trim())}`);
+    setSearchTerm("");
+    setSidebarOpen(false);
+  };
 
   const menuItems = [
-    { icon: Home, label: "Dashboard", href: "/" },
-    { icon: BookOpen, label: "Mes cours", href: "/courses" },
-    { icon: FileText, label: "Notes", href: "/notes" },
-    { icon: Settings, label: "Paramètres", href: "/settings" },
+    { icon: Home, label: t('nav.dashboard'), href: "/" },
+    { icon: BookOpen, label: t('nav.courses'), href: "/courses" },
+    { icon: FileText, label: t('nav.notes'), href: "/notes" },
+    { icon: Trash2, label: t('nav.trash'), href: "/trash" },
+    { icon: Settings, label: t('nav.settings'), href: "/settings" },
   ];
 
   return (
     <div className="min-h-screen bg-gradient-bg">
+      <CommandPalette onSignOut={signOut} />
+
       {/* Mobile sidebar backdrop */}
       {sidebarOpen && (
         <div 
@@ -112,6 +118,21 @@ export default function Layout({ children }: LayoutProps) {
           </Button>
         </div>
 
+        <form onSubmit={submitSearch} className="px-4 pt-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder={t('layout.searchPlaceholder')}
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            <kbd className="px-1.5 py-0.5 rounded border bg-muted font-mono">Ctrl K</kbd> {t('layout.commandPaletteHint')}
+          </p>
+        </form>
+
         <nav className="p-4 space-y-2">
           {menuItems.map((item) => (
             <Button
@@ -130,8 +151,21 @@ export default function Layout({ children }: LayoutProps) {
         </nav>
 
         <div className="absolute bottom-4 left-4 right-4">
-          <div className="p-3 bg-muted rounded-lg mb-3">
-            <p className="text-sm font-medium truncate">{session.user?.email}</p>
+          <div className="flex items-center gap-3 p-3 bg-muted rounded-lg mb-3">
+            <Avatar className="h-8 w-8">
+              <AvatarImage src={profile?.avatar_url || undefined} />
+              <AvatarFallback className="bg-gradient-primary text-white text-xs">
+                {(profile?.display_name || user?.email || '?')[0].toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <div className="min-w-0">
+              {profile?.display_name && (
+                <p className="text-sm font-medium truncate">{profile.display_name}</p>
+              )}
+              <p className={profile?.display_name ? "text-xs text-muted-foreground truncate" : "text-sm font-medium truncate"}>
+                {user?.email}
+              </p>
+            </div>
           </div>
           <Button
             variant="outline"
@@ -139,22 +173,30 @@ export default function Layout({ children }: LayoutProps) {
             onClick={signOut}
           >
             <LogOut className="mr-3 h-4 w-4" />
-            Déconnexion
+            {t('layout.signOut')}
           </Button>
         </div>
       </div>
 
       {/* Main content */}
       <div className="lg:ml-64 flex-1">
-        {/* Mobile header */}
-        <div className="lg:hidden bg-card border-b px-4 py-3">
+        {/* Header */}
+        <div className="bg-card border-b px-4 lg:px-6 h-16 flex items-center justify-between">
           <Button
             variant="ghost"
             size="icon"
+            className="lg:hidden"
             onClick={() => setSidebarOpen(true)}
           >
             <Menu className="h-5 w-5" />
           </Button>
+          <div className="ml-auto flex items-center gap-4">
+            <SyncStatus />
+            <div className="flex items-center">
+              <LocaleSwitcher />
+              <ThemeToggle />
+            </div>
+          </div>
         </div>
 
         <main className="p-6">
@@ -0,0 +1,38 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Languages } from "lucide-react";
+import { useI18n } from "@/hooks/use-i18n";
+import { LOCALES, isLocale } from "@/lib/i18n";
+
+export default function LocaleSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" aria-label={t('locale.label')}>
+          <Languages className="h-4 w-4 mr-2" />
+          {locale.toUpperCase()}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuRadioGroup
+          value={locale}
+          onValueChange={(next) => isLocale(next) && setLocale(next)}
+        >
+          {LOCALES.map((option) => (
+            <DropdownMenuRadioItem key={option} value={option}>
+              {t(`locale.${option}`)}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
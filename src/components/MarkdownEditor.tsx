@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Textarea } from "@/components/ui/textarea";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Columns2, Eye, Pencil } from "lucide-react";
+import MarkdownRenderer from "@/components/MarkdownRenderer";
+import { useI18n } from "@/hooks/use-i18n";
+import { cn } from "@/lib/utils";
+
+type EditorMode = 'write' | 'split' | 'preview';
+
+interface MarkdownEditorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  rows?: number;
+  className?: string;
+}
+
+export default function MarkdownEditor({
+  id,
+  value,
+  onChange,
+  placeholder,
+  rows = 6,
+  className
+}: MarkdownEditorProps) {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<EditorMode>('write');
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">{t('markdown.supported')}</p>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={mode}
+          onValueChange={(next) => next && setMode(next as EditorMode)}
+        >
+          <ToggleGroupItem value="write" aria-label={t('markdown.write')}>
+            <Pencil className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="split" aria-label={t('markdown.split')}>
+            <Columns2 className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="preview" aria-label={t('markdown.preview')}>
+            <Eye className="h-4 w-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <div className={cn(mode === 'split' && "grid grid-cols-1 lg:grid-cols-2 gap-4")}>
+        {mode !== 'preview' && (
+          <Textarea
+            id={id}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={placeholder}
+            rows={rows}
+            className={cn("font-mono", className)}
+          />
+        )}
+        {mode !== 'write' && (
+          <div className={cn("rounded-md border p-4 overflow-auto", className)}>
+            {value.trim() ? (
+              <MarkdownRenderer content={value} />
+            ) : (
+              <p className="text-sm text-muted-foreground">{t('markdown.nothingToPreview')}</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeRaw from "rehype-raw";
+import rehypeSanitize, { defaultSchema } from "rehype-sanitize";
+import rehypeKatex from "rehype-katex";
+import rehypeHighlight from "rehype-highlight";
+import { cn } from "@/lib/utils";
+import "katex/dist/katex.min.css";
+import "highlight.js/styles/github.css";
+
+// remark-math marks formulas with extra classes on <code>; keep them through
+// sanitization so KaTeX can tell inline from display math.
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [["className", /^language-./, "math-inline", "math-display"]],
+  },
+};
+
+interface MarkdownRendererProps {
+  content: string;
+  className?: string;
+}
+
+export default function MarkdownRenderer({ content, className }: MarkdownRendererProps) {
+  return (
+    <div className={cn("prose prose-sm max-w-none dark:prose-invert", className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        // Raw HTML is parsed first, then stripped down to a safe whitelist.
+        // KaTeX and highlighting run afterwards so their markup is kept.
+        rehypePlugins={[
+          rehypeRaw,
+          [rehypeSanitize, sanitizeSchema],
+          // Invalid formulas fall back to their source text.
+          [rehypeKatex, { errorColor: "currentColor" }],
+          rehypeHighlight,
+        ]}
+        components={{
+          a: ({ node, ...props }) => (
+            <a {...props} target="_blank" rel="noopener noreferrer" />
+          ),
+        }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState, useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { History, RotateCcw } from "lucide-react";
+import { useI18n } from "@/hooks/use-i18n";
+import { useNoteRevisions } from "@/hooks/use-course-notes";
+import { diffLines } from "@/lib/diff";
+import { cn } from "@/lib/utils";
+
+interface NoteVersion {
+  id: string;
+  title: string;
+  content: string;
+  created_at: string;
+}
+
+interface NoteHistoryProps {
+  noteId: string;
+  current: {
+    title: string;
+    content: string;
+    updated_at: string;
+  };
+  // Resolves to whether the version was restored.
+  onRestore: (version: NoteVersion) => Promise<boolean>;
+}
+
+const CURRENT_VERSION = 'current';
+
+export default function NoteHistory({ noteId, current, onRestore }: NoteHistoryProps) {
+  const { t, formatDate } = useI18n();
+  const [open, setOpen] = useState(false);
+  const { data, isLoading: loading } = useNoteRevisions(noteId, { enabled: open });
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>(CURRENT_VERSION);
+
+  const revisions: NoteVersion[] = useMemo(() => (data || []).map(revision => ({
+    ...revision,
+    content: revision.content || ''
+  })), [data]);
+
+  // Compare the latest revision with the current version whenever the
+  // history is opened or refreshed.
+  useEffect(() => {
+    if (open) {
+      setFromId(revisions[0]?.id || '');
+      setToId(CURRENT_VERSION);
+    }
+  }, [open, revisions]);
+
+  const versions: NoteVersion[] = useMemo(() => [
+    { id: CURRENT_VERSION, title: current.title, content: current.content, created_at: current.updated_at },
+    ...revisions
+  ], [current, revisions]);
+
+  const diff = useMemo(() => {
+    const from = versions.find(v => v.id === fromId);
+    const to = versions.find(v => v.id === toId);
+    if (!from || !to) return [];
+    return diffLines(`# ${from.title}\n\n${from.content}`, `# ${to.title}\n\n${to.content}`);
+  }, [versions, fromId, toId]);
+
+  const restore = async (version: NoteVersion) => {
+    if (await onRestore(version)) {
+      setOpen(false);
+    }
+  };
+
+  const formatVersion = (version: NoteVersion) =>
+    version.id === CURRENT_VERSION
+      ? t('history.current')
+      : formatDate(version.created_at, 'PPp');
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm">
+          <History className="h-4 w-4 mr-2" />
+          {t('history.open')}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-2xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>{t('history.title')}</SheetTitle>
+          <SheetDescription>
+            {t('history.description')}
+          </SheetDescription>
+        </SheetHeader>
+
+        {loading ? (
+          <div className="space-y-2 animate-pulse">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="h-10 bg-muted rounded"></div>
+            ))}
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {t('history.none')}
+          </p>
+        ) : (
+          <div className="flex-1 flex flex-col gap-4 min-h-0">
+            <ScrollArea className="max-h-48 border rounded-md">
+              <div className="divide-y">
+                {revisions.map((revision) => (
+                  <div key={revision.id} className="flex items-center justify-between p-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{revision.title}</p>
+                      <p className="text-xs text-muted-foreground">{formatVersion(revision)}</p>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => restore(revision)}>
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      {t('history.restore')}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="flex items-center gap-2 text-sm">
+              <Select value={fromId} onValueChange={setFromId}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((version) => (
+                    <SelectItem key={version.id} value={version.id}>
+                      {formatVersion(version)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-muted-foreground">→</span>
+              <Select value={toId} onValueChange={setToId}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((version) => (
+                    <SelectItem key={version.id} value={version.id}>
+                      {formatVersion(version)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <ScrollArea className="flex-1 border rounded-md">
+              <pre className="text-xs font-mono p-3">
+                {diff.map((line, i) => (
+                  <div
+                    key={i}
+                    className={cn(
+                      "whitespace-pre-wrap px-2",
+                      line.type === 'added' && "bg-success/15 text-success",
+                      line.type === 'removed' && "bg-destructive/15 text-destructive"
+                    )}
+                  >
+                    {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                    {line.value}
+                  </div>
+                ))}
+              </pre>
+            </ScrollArea>
+
+            <p className="text-xs text-muted-foreground">
+              {t('history.restoreHint')}
+            </p>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,32 @@
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+
+interface OtpCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  length?: number;
+  disabled?: boolean;
+}
+
+export default function OtpCodeInput({ value, onChange, onComplete, length = 6, disabled }: OtpCodeInputProps) {
+  return (
+    <div className="flex justify-center">
+      <InputOTP
+        maxLength={length}
+        value={value}
+        onChange={onChange}
+        onComplete={onComplete}
+        disabled={disabled}
+        inputMode="numeric"
+        pattern="^[0-9]*$"
+        autoFocus
+      >
+        <InputOTPGroup>
+          {[...Array(length)].map((_, index) => (
+            <InputOTPSlot key={index} index={index} />
+          ))}
+        </InputOTPGroup>
+      </InputOTP>
+    </div>
+  );
+}
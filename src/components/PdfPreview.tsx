@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { GlobalWorkerOptions, getDocument, type PDFDocumentProxy, type RenderTask } from "pdfjs-dist";
+import workerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronUp, Loader2 } from "lucide-react";
+import { useI18n } from "@/hooks/use-i18n";
+
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+interface PdfPreviewProps {
+  url: string;
+}
+
+// Renders one page at a time, fitted to the width of the dialog, so long
+// handouts open as fast as short ones.
+export default function PdfPreview({ url }: PdfPreviewProps) {
+  const { t } = useI18n();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy>();
+  const [pageNumber, setPageNumber] = useState(1);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    const task = getDocument(url);
+    setPdf(undefined);
+    setPageNumber(1);
+    setFailed(false);
+    task.promise.then(setPdf, () => setFailed(true));
+
+    return () => {
+      task.destroy();
+    };
+  }, [url]);
+
+  useEffect(() => {
+    if (!pdf) return;
+
+    let canceled = false;
+    let renderTask: RenderTask | undefined;
+
+    pdf.getPage(pageNumber).then((page) => {
+      const canvas = canvasRef.current;
+      const container = containerRef.current;
+      if (canceled || !canvas || !container) return;
+
+      const scale = container.clientWidth / page.getViewport({ scale: 1 }).width;
+      const viewport = page.getViewport({ scale });
+      // Drawn at the screen's pixel density so text stays sharp.
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * ratio);
+      canvas.height = Math.floor(viewport.height * ratio);
+      canvas.style.width = `${Math.floor(viewport.width)}px`;
+      canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+      renderTask = page.render({
+        canvasContext: canvas.getContext('2d'),
+        viewport,
+        transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined,
+      });
+      // Rendering is canceled whenever the page changes mid-way.
+      renderTask.promise.catch(() => undefined);
+    }, () => setFailed(true));
+
+    return () => {
+      canceled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber]);
+
+  const goToPage = useCallback((page: number) => {
+    if (!pdf) return;
+    setPageNumber(Math.min(Math.max(page, 1), pdf.numPages));
+    containerRef.current?.scrollTo({ top: 0 });
+  }, [pdf]);
+
+  // Arrow keys switch files, so pages use Page Up and Page Down, wherever
+  // the focus is in the dialog.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'PageDown') {
+        event.preventDefault();
+        goToPage(pageNumber + 1);
+      } else if (event.key === 'PageUp') {
+        event.preventDefault();
+        goToPage(pageNumber - 1);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [goToPage, pageNumber]);
+
+  if (failed) {
+    return <p className="py-12 text-center text-muted-foreground">{t('preview.loadError')}</p>;
+  }
+
+  return (
+    <div className="flex h-full flex-col gap-3">
+      <div ref={containerRef} className="relative min-h-0 flex-1 overflow-auto rounded-md bg-muted">
+        {!pdf && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        <canvas ref={canvasRef} className="mx-auto bg-white" />
+      </div>
+      {pdf && (
+        <div className="flex items-center justify-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            aria-label={t('preview.previousPage')}
+            disabled={pageNumber <= 1}
+            onClick={() => goToPage(pageNumber - 1)}
+          >
+            <ChevronUp className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            {t('preview.page', { page: pageNumber, total: pdf.numPages })}
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            aria-label={t('preview.nextPage')}
+            disabled={pageNumber >= pdf.numPages}
+            onClick={() => goToPage(pageNumber + 1)}
+          >
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
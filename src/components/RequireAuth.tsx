@@ -0,0 +1,31 @@
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { GraduationCap } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useI18n } from "@/hooks/use-i18n";
+
+// Route wrapper for every page that needs a signed-in user. The requested
+// location is passed to /auth, which sends the user back there after login.
+export default function RequireAuth() {
+  const { session, loading, mfaRequired } = useAuth();
+  const location = useLocation();
+  const { t } = useI18n();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-bg flex items-center justify-center">
+        <div className="text-center">
+          <div className="bg-gradient-primary p-3 rounded-2xl shadow-glow mb-4 mx-auto w-fit">
+            <GraduationCap className="h-8 w-8 text-white animate-pulse" />
+          </div>
+          <p className="text-muted-foreground">{t('common.loading')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session || mfaRequired) {
+    return <Navigate to="/auth" replace state={{ from: location }} />;
+  }
+
+  return <Outlet />;
+}
@@ -0,0 +1,31 @@
+import { Cloud, CloudOff, RefreshCw } from "lucide-react";
+import { useSyncState } from "@/hooks/use-offline-sync";
+import { useI18n } from "@/hooks/use-i18n";
+import { cn } from "@/lib/utils";
+
+export default function SyncStatus() {
+  const { status, pending } = useSyncState();
+  const { t } = useI18n();
+
+  const pendingLabel = pending > 0 ? t('sync.pending', { count: pending }) : null;
+
+  const { icon: Icon, label, className } = {
+    online: { icon: Cloud, label: t('sync.online'), className: 'text-muted-foreground' },
+    offline: { icon: CloudOff, label: t('sync.offline'), className: 'text-warning' },
+    syncing: { icon: RefreshCw, label: t('sync.syncing'), className: 'text-primary' },
+  }[status];
+
+  return (
+    <div
+      className={cn("flex items-center gap-2 text-sm", className)}
+      role="status"
+      title={status === 'offline' ? t('sync.offlineHint') : undefined}
+    >
+      <Icon className={cn("h-4 w-4", status === 'syncing' && "animate-spin")} />
+      <span>{label}</span>
+      {pendingLabel && (
+        <span className="text-xs text-muted-foreground hidden sm:inline">· {pendingLabel}</span>
+      )}
+    </div>
+  );
+}
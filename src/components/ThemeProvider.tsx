@@ -0,0 +1,39 @@
+import { useEffect } from "react";
+import { ThemeProvider as NextThemesProvider, useTheme } from "next-themes";
+import { useProfile } from "@/hooks/use-profile";
+import { isTheme } from "@/hooks/use-theme-preference";
+
+interface ThemeProviderProps {
+  children: React.ReactNode;
+}
+
+// next-themes keeps the theme on this device and applies it before the first
+// paint; the profile's theme takes over once it is loaded.
+export default function ThemeProvider({ children }: ThemeProviderProps) {
+  return (
+    <NextThemesProvider
+      attribute="class"
+      defaultTheme="system"
+      enableSystem
+      disableTransitionOnChange
+      storageKey="studidash:theme"
+    >
+      <ProfileTheme />
+      {children}
+    </NextThemesProvider>
+  );
+}
+
+function ProfileTheme() {
+  const { profile } = useProfile();
+  const { setTheme } = useTheme();
+  const profileTheme = profile?.theme;
+
+  useEffect(() => {
+    if (isTheme(profileTheme)) {
+      setTheme(profileTheme);
+    }
+  }, [profileTheme, setTheme]);
+
+  return null;
+}
@@ -0,0 +1,49 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Monitor, Moon, Sun } from "lucide-react";
+import { useI18n } from "@/hooks/use-i18n";
+import { THEMES, isTheme, useThemePreference } from "@/hooks/use-theme-preference";
+
+const themeIcons = {
+  light: Sun,
+  dark: Moon,
+  system: Monitor,
+};
+
+export default function ThemeToggle() {
+  const { theme, resolvedTheme, setTheme } = useThemePreference();
+  const { t } = useI18n();
+  const Icon = themeIcons[resolvedTheme];
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label={t('theme.label')}>
+          <Icon className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuRadioGroup
+          value={theme}
+          onValueChange={(next) => isTheme(next) && setTheme(next)}
+        >
+          {THEMES.map((option) => {
+            const OptionIcon = themeIcons[option];
+            return (
+              <DropdownMenuRadioItem key={option} value={option}>
+                <OptionIcon className="h-4 w-4 mr-2" />
+                {t(`theme.${option}`)}
+              </DropdownMenuRadioItem>
+            );
+          })}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,389 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Copy,
+  Download,
+  Loader2,
+  ShieldCheck,
+  Smartphone,
+  Trash2
+} from "lucide-react";
+import { Factor } from "@supabase/supabase-js";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useI18n } from "@/hooks/use-i18n";
+import OtpCodeInput from "@/components/OtpCodeInput";
+import { generateRecoveryCodes, hashRecoveryCode } from "@/lib/recovery-codes";
+
+interface Enrollment {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+}
+
+export default function TwoFactorSettings() {
+  const [factors, setFactors] = useState<Factor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [verifying, setVerifying] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const { user } = useAuth();
+  const { t, formatDate } = useI18n();
+
+  const fetchFactors = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.auth.mfa.listFactors();
+      if (error) throw error;
+      setFactors(data.totp);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('mfa.loadError'),
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    fetchFactors();
+  }, [fetchFactors]);
+
+  const startEnrollment = async () => {
+    try {
+      // Factors left unverified by an abandoned enrollment would clash
+      // with the new one.
+      const { data: existing, error: listError } = await supabase.auth.mfa.listFactors();
+      if (listError) throw listError;
+
+      for (const factor of existing.all.filter(f => f.factor_type === 'totp' && f.status === 'unverified')) {
+        await supabase.auth.mfa.unenroll({ factorId: factor.id });
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: 'totp',
+        friendlyName: t('mfa.authenticatorName', { date: formatDate(new Date()) }),
+      });
+      if (error) throw error;
+
+      setCode("");
+      setEnrollment({
+        factorId: data.id,
+        qrCode: data.totp.qr_code,
+        secret: data.totp.secret,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('mfa.enrollError'),
+      });
+    }
+  };
+
+  const cancelEnrollment = async () => {
+    if (enrollment) {
+      await supabase.auth.mfa.unenroll({ factorId: enrollment.factorId });
+    }
+    setEnrollment(null);
+  };
+
+  // Replaces the stored recovery codes; requires an aal2 session.
+  const createRecoveryCodes = async () => {
+    const codes = generateRecoveryCodes();
+
+    const { error: deleteError } = await supabase
+      .from('mfa_recovery_codes')
+      .delete()
+      .eq('user_id', user.id);
+
+    if (deleteError) throw deleteError;
+
+    const { error: insertError } = await supabase
+      .from('mfa_recovery_codes')
+      .insert(await Promise.all(codes.map(async (code) => ({
+        user_id: user.id,
+        code_hash: await hashRecoveryCode(code),
+      }))));
+
+    if (insertError) throw insertError;
+
+    setRecoveryCodes(codes);
+  };
+
+  const verifyEnrollment = async (token: string) => {
+    if (!enrollment || token.length !== 6) return;
+    setVerifying(true);
+
+    try {
+      // Verifying upgrades the current session to aal2.
+      const { error } = await supabase.auth.mfa.challengeAndVerify({
+        factorId: enrollment.factorId,
+        code: token,
+      });
+
+      if (error) {
+        setCode("");
+        toast({
+          variant: "destructive",
+          title: t('auth.invalidCode'),
+          description: t('mfa.invalidCodeDescription'),
+        });
+        return;
+      }
+
+      setEnrollment(null);
+      await createRecoveryCodes();
+      await fetchFactors();
+      toast({
+        title: t('mfa.enabledToast'),
+        description: t('mfa.enabledToastDescription'),
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('mfa.codesError'),
+      });
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const regenerateRecoveryCodes = async () => {
+    try {
+      await createRecoveryCodes();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('mfa.codesError'),
+      });
+    }
+  };
+
+  const removeFactor = async (factor: Factor) => {
+    try {
+      const remaining = factors.filter(f => f.id !== factor.id);
+
+      if (remaining.length === 0) {
+        // Codes are useless without a factor. They are removed first, while
+        // the session still satisfies the aal2 delete policy.
+        const { error: deleteError } = await supabase
+          .from('mfa_recovery_codes')
+          .delete()
+          .eq('user_id', user.id);
+
+        if (deleteError) throw deleteError;
+        setRecoveryCodes(null);
+      }
+
+      const { error } = await supabase.auth.mfa.unenroll({ factorId: factor.id });
+      if (error) throw error;
+
+      setFactors(remaining);
+      toast({
+        title: t('mfa.removed'),
+        description: remaining.length === 0
+          ? t('mfa.removedLastDescription')
+          : t('mfa.removedDescription'),
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('mfa.removeError'),
+      });
+    }
+  };
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    toast({
+      title: t('mfa.codesCopied'),
+      description: t('mfa.codesCopiedDescription'),
+    });
+  };
+
+  const downloadRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+    const blob = new Blob([recoveryCodes.join('\n') + '\n'], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = t('mfa.codesFilename');
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card className="shadow-card border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          {t('mfa.title')}
+          {factors.length > 0 && <Badge className="bg-success text-success-foreground">{t('mfa.enabled')}</Badge>}
+        </CardTitle>
+        <CardDescription>
+          {t('mfa.description')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="h-10 bg-muted rounded w-full animate-pulse"></div>
+        ) : (
+          <>
+            {factors.length > 0 && (
+              <div className="space-y-2">
+                {factors.map((factor) => (
+                  <div key={factor.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div className="flex items-center gap-3">
+                      <Smartphone className="h-5 w-5 text-muted-foreground" />
+                      <div>
+                        <p className="text-sm font-medium">{factor.friendly_name || t('mfa.authenticator')}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {t('mfa.addedOn', { date: formatDate(factor.created_at) })}
+                        </p>
+                      </div>
+                    </div>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          className="hover:bg-destructive hover:text-destructive-foreground"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>{t('mfa.removeTitle')}</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            {factors.length === 1
+                              ? t('mfa.removeLastDescription')
+                              : t('mfa.removeDescription')
+                            }
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => removeFactor(factor)}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            {t('mfa.remove')}
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {enrollment ? (
+              <div className="space-y-4 p-4 border rounded-lg">
+                <p className="text-sm">
+                  {t('mfa.scanStep')}
+                </p>
+                <div className="flex justify-center">
+                  <img src={enrollment.qrCode} alt={t('mfa.qrCode')} className="h-44 w-44 bg-white p-2 rounded-lg" />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">{t('mfa.manualKey')}</Label>
+                  <code className="block p-2 bg-muted rounded text-sm font-mono break-all select-all">
+                    {enrollment.secret}
+                  </code>
+                </div>
+                <p className="text-sm">
+                  {t('mfa.codeStep')}
+                </p>
+                <OtpCodeInput
+                  value={code}
+                  onChange={setCode}
+                  onComplete={verifyEnrollment}
+                  disabled={verifying}
+                />
+                <div className="flex gap-2">
+                  <Button variant="outline" className="flex-1" onClick={cancelEnrollment} disabled={verifying}>
+                    {t('common.cancel')}
+                  </Button>
+                  <Button
+                    className="flex-1 bg-gradient-primary hover:opacity-90 shadow-glow"
+                    onClick={() => verifyEnrollment(code)}
+                    disabled={verifying || code.length !== 6}
+                  >
+                    {verifying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {t('mfa.verify')}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" onClick={startEnrollment}>
+                  <Smartphone className="mr-2 h-4 w-4" />
+                  {factors.length > 0 ? t('mfa.add') : t('mfa.enable')}
+                </Button>
+                {factors.length > 0 && !recoveryCodes && (
+                  <Button variant="ghost" onClick={regenerateRecoveryCodes}>
+                    {t('mfa.regenerateCodes')}
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {recoveryCodes && (
+              <div className="space-y-3 p-4 border border-warning/50 rounded-lg bg-warning/5">
+                <div>
+                  <p className="text-sm font-medium">{t('mfa.recoveryCodes')}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {t('mfa.recoveryCodesDescription')}
+                  </p>
+                </div>
+                <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                  {recoveryCodes.map((recoveryCode) => (
+                    <code key={recoveryCode} className="p-1 bg-muted rounded text-center">
+                      {recoveryCode}
+                    </code>
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" size="sm" onClick={copyRecoveryCodes}>
+                    <Copy className="mr-2 h-4 w-4" />
+                    {t('mfa.copy')}
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={downloadRecoveryCodes}>
+                    <Download className="mr-2 h-4 w-4" />
+                    {t('mfa.download')}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setRecoveryCodes(null)}>
+                    {t('mfa.codesKept')}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,178 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { AlertTriangle, Check, Copy, File, Link2, RotateCw, Upload, X } from "lucide-react";
+import { useI18n } from "@/hooks/use-i18n";
+import type { UploadItem } from "@/hooks/use-upload-queue";
+import { preferredDuplicate } from "@/hooks/use-course-files";
+import { cn } from "@/lib/utils";
+
+interface UploadListProps {
+  items: UploadItem[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onLinkDuplicate: (id: string) => void;
+  onUploadAnyway: (id: string) => void;
+  // Asks for the file of an interrupted upload again.
+  onResume?: () => void;
+  onRetryFailed: () => void;
+  onClearFinished: () => void;
+}
+
+export default function UploadList({
+  items,
+  onCancel,
+  onRetry,
+  onLinkDuplicate,
+  onUploadAnyway,
+  onResume,
+  onRetryFailed,
+  onClearFinished
+}: UploadListProps) {
+  const { t, formatFileSize } = useI18n();
+
+  if (items.length === 0) return null;
+
+  const done = items.filter(item => item.status === 'done').length;
+  const failed = items.filter(item => item.status === 'error');
+  const finished = items.some(item => item.status === 'done' || item.status === 'canceled');
+  const interrupted = items.some(item => item.status === 'interrupted');
+
+  const statusLabel = (item: UploadItem) =>
+    item.status === 'uploading'
+      ? t('upload.status.uploading', { percent: Math.round(item.progress * 100) })
+      : item.linked
+        ? t('upload.status.linked')
+        : t(`upload.status.${item.status}`);
+
+  // Names the file that would be linked.
+  const duplicateHint = (item: UploadItem) => {
+    const existing = preferredDuplicate(item.duplicates, item.courseId);
+    return existing.course_id === item.courseId
+      ? t('upload.duplicateInCourse', { name: existing.filename })
+      : t('upload.duplicateInOtherCourse', {
+          name: existing.filename,
+          course: existing.courses.title,
+        });
+  };
+
+  return (
+    <Card className="shadow-card border-0">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg">{t('upload.title')}</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {t('upload.progress', { done, total: items.length })}
+            </p>
+          </div>
+          {finished && (
+            <Button variant="ghost" size="sm" onClick={onClearFinished}>
+              {t('upload.clearFinished')}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {failed.length > 0 && (
+          <div className="rounded-lg border border-destructive/50 p-4 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <p className="flex items-center font-medium text-destructive">
+                <AlertTriangle className="h-4 w-4 mr-2" />
+                {t('upload.failed', { count: failed.length })}
+              </p>
+              <Button variant="outline" size="sm" onClick={onRetryFailed}>
+                <RotateCw className="h-4 w-4 mr-2" />
+                {t('upload.retryFailed')}
+              </Button>
+            </div>
+            <ul className="text-sm space-y-1">
+              {failed.map(item => (
+                <li key={item.id} className="break-words">
+                  <span className="font-medium">{item.path}</span>
+                  <span className="text-muted-foreground"> — {item.error}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {interrupted && onResume && (
+          <div className="flex items-center justify-between gap-2 rounded-lg border p-4">
+            <p className="text-sm text-muted-foreground">{t('upload.interruptedHint')}</p>
+            <Button variant="outline" size="sm" onClick={onResume}>
+              <Upload className="h-4 w-4 mr-2" />
+              {t('upload.resume')}
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {items.map(item => (
+            <div key={item.id} className="flex items-center gap-3">
+              <File className="h-5 w-5 shrink-0 text-muted-foreground" />
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate font-medium" title={item.path}>{item.path}</span>
+                  <span
+                    className={cn(
+                      "shrink-0 text-xs",
+                      item.status === 'error' ? "text-destructive" : "text-muted-foreground"
+                    )}
+                  >
+                    {formatFileSize(item.size)} · {statusLabel(item)}
+                  </span>
+                </div>
+                <Progress
+                  value={item.progress * 100}
+                  className={cn("h-1.5", item.status === 'error' && "[&>div]:bg-destructive")}
+                />
+                {item.status === 'duplicate' && (
+                  <div className="flex flex-wrap items-center justify-between gap-2 pt-1">
+                    <p className="flex items-center text-xs text-warning">
+                      <Copy className="h-3.5 w-3.5 mr-1.5 shrink-0" />
+                      {duplicateHint(item)}
+                    </p>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => onLinkDuplicate(item.id)}>
+                        <Link2 className="h-4 w-4 mr-2" />
+                        {t('upload.link')}
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => onUploadAnyway(item.id)}>
+                        {t('upload.uploadAnyway')}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+              {item.status === 'queued' || item.status === 'hashing' || item.status === 'uploading' ||
+                item.status === 'interrupted' || item.status === 'duplicate' ? (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  aria-label={t('upload.cancel')}
+                  onClick={() => onCancel(item.id)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              ) : item.status === 'done' ? (
+                <Check className="h-4 w-4 mx-2 shrink-0 text-success" />
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  aria-label={t('upload.retry')}
+                  onClick={() => onRetry(item.id)}
+                >
+                  <RotateCw className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,23 @@
+import * as React from "react"
+import type { Session, User } from "@supabase/supabase-js"
+
+export interface AuthState {
+  session: Session | null
+  user: User | null
+  // True until the session stored by the client has been restored.
+  loading: boolean
+  // The user has a verified factor but the session has not passed the
+  // two-factor challenge yet.
+  mfaRequired: boolean
+}
+
+export const AuthContext = React.createContext<AuthState | null>(null)
+
+export function useAuth() {
+  const context = React.useContext(AuthContext)
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider.")
+  }
+
+  return context
+}
@@ -0,0 +1,562 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { supabase } from "@/integrations/supabase/client"
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types"
+import { hashFile } from "@/lib/file-hash"
+import { readThrough } from "@/lib/offline-sync"
+import {
+  getPendingUpload,
+  getPendingUploads,
+  isSameFile,
+  removePendingUpload,
+  savePendingUpload,
+  type PendingUpload,
+} from "@/lib/pending-uploads"
+import {
+  patchCachedRow,
+  restoreQueries,
+  snapshotQueries,
+} from "@/lib/query-cache"
+import { RESUMABLE_UPLOAD_THRESHOLD, uploadResumable } from "@/lib/resumable-upload"
+import { isAbortError, uploadToStorage, type UploadOptions } from "@/lib/storage-upload"
+
+export type CourseFile = Tables<"course_files">
+
+export type CourseFileVersion = Tables<"course_file_versions">
+
+// A file found by its content, with the title of its course.
+export type DuplicateFile = CourseFile & { courses: { title: string } }
+
+export const fileKeys = {
+  all: ["files"] as const,
+  lists: () => [...fileKeys.all, "list"] as const,
+  list: (courseId: string) => [...fileKeys.lists(), courseId] as const,
+  signedUrl: (filePath: string) => [...fileKeys.all, "signed-url", filePath] as const,
+  text: (filePath: string) => [...fileKeys.all, "text", filePath] as const,
+  versions: (fileId: string) => [...fileKeys.all, "versions", fileId] as const,
+  duplicates: () => [...fileKeys.all, "duplicates"] as const,
+}
+
+// Signed URLs let the browser stream and seek media itself instead of
+// downloading the whole file first.
+const SIGNED_URL_EXPIRY = 60 * 60
+
+export function useCourseFiles(
+  courseId: string | undefined,
+  options: { enabled?: boolean } = {}
+) {
+  return useQuery({
+    queryKey: fileKeys.list(courseId),
+    // Only the metadata is available offline, not the stored files.
+    queryFn: () =>
+      readThrough(
+        "course_files",
+        async () => {
+          const { data, error } = await supabase
+            .from("course_files")
+            .select("*")
+            .eq("course_id", courseId)
+            .is("deleted_at", null)
+            .order("created_at", { ascending: false })
+
+          if (error) throw error
+          return data
+        },
+        {
+          match: (file) => file.course_id === courseId && !file.deleted_at,
+          compare: (a, b) => b.created_at.localeCompare(a.created_at),
+        }
+      ),
+    enabled: !!courseId && options.enabled !== false,
+    meta: { errorMessage: "errors.loadFiles" },
+  })
+}
+
+export function useSignedFileUrl(file: CourseFile | undefined) {
+  return useQuery({
+    queryKey: fileKeys.signedUrl(file?.file_path),
+    queryFn: async () => {
+      const { data, error } = await supabase.storage
+        .from("course-files")
+        .createSignedUrl(file.file_path, SIGNED_URL_EXPIRY)
+
+      if (error) throw error
+      return data.signedUrl
+    },
+    enabled: !!file,
+    // Renewed well before it expires when a preview is opened again, but
+    // never while one is open: a new URL would restart playback.
+    staleTime: (SIGNED_URL_EXPIRY / 2) * 1000,
+    refetchOnWindowFocus: false,
+  })
+}
+
+// Stored files never change in place, so their content is cached as is.
+export function useFileText(file: CourseFile) {
+  return useQuery({
+    queryKey: fileKeys.text(file.file_path),
+    queryFn: async () => {
+      const { data, error } = await supabase.storage
+        .from("course-files")
+        .download(file.file_path)
+
+      if (error) throw error
+      return data.text()
+    },
+    staleTime: Infinity,
+  })
+}
+
+// Files uploaded together can share the same millisecond.
+function buildFilePath(userId: string, courseId: string, filename: string) {
+  const fileExt = filename.split(".").pop()
+  return `${userId}/${courseId}/${Date.now()}-${crypto.randomUUID()}.${fileExt}`
+}
+
+// Resumable uploads are tracked with these details until their row exists.
+export function createPendingUpload(
+  userId: string,
+  courseId: string,
+  file: File,
+  folderId: string | null = null
+): PendingUpload {
+  return {
+    objectName: buildFilePath(userId, courseId, file.name),
+    courseId,
+    userId,
+    folderId,
+    filename: file.name,
+    size: file.size,
+    type: file.type,
+    lastModified: file.lastModified,
+  }
+}
+
+// The row is only inserted once the object is complete, so the file list
+// never shows a file that cannot be downloaded.
+async function insertCourseFile(upload: PendingUpload) {
+  const { data, error } = await supabase
+    .from("course_files")
+    .insert({
+      course_id: upload.courseId,
+      user_id: upload.userId,
+      filename: upload.filename,
+      file_path: upload.objectName,
+      folder_id: upload.folderId ?? null,
+      file_size: upload.size,
+      mime_type: upload.type,
+      content_hash: upload.contentHash ?? null,
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  removePendingUpload(upload.objectName)
+  return data
+}
+
+function useAddFileToCache() {
+  const queryClient = useQueryClient()
+
+  return (file: CourseFile) => {
+    queryClient.setQueryData<CourseFile[]>(
+      fileKeys.list(file.course_id),
+      (files) => files && [file, ...files]
+    )
+  }
+}
+
+interface UploadFileVariables extends UploadOptions {
+  userId: string
+  courseId: string
+  folderId?: string | null
+  file: File
+  // Resumable upload to continue, e.g. one interrupted by a reload.
+  pending?: PendingUpload
+  // SHA-256 of the file when it was already computed, e.g. to look for
+  // duplicates.
+  contentHash?: string
+}
+
+export function useUploadFile() {
+  const addFileToCache = useAddFileToCache()
+
+  return useMutation({
+    mutationFn: async ({ userId, courseId, folderId, file, onProgress, signal, ...variables }: UploadFileVariables) => {
+      const resumable = !!variables.pending || file.size > RESUMABLE_UPLOAD_THRESHOLD
+      // The stored copy has the upload URL of an earlier attempt.
+      const stored = variables.pending
+        ? getPendingUpload(variables.pending.objectName) ?? variables.pending
+        : createPendingUpload(userId, courseId, file, folderId)
+      const upload: PendingUpload = {
+        ...stored,
+        contentHash:
+          variables.contentHash ?? stored.contentHash ?? (await hashFile(file, signal)),
+      }
+      const filePath = upload.objectName
+
+      if (resumable) {
+        savePendingUpload(upload)
+        try {
+          await uploadResumable("course-files", filePath, file, {
+            onProgress,
+            signal,
+            uploadUrl: upload.uploadUrl,
+            onUploadUrl: (uploadUrl) => savePendingUpload({ ...upload, uploadUrl }),
+          })
+        } catch (error) {
+          if (isAbortError(error)) removePendingUpload(filePath)
+          throw error
+        }
+        savePendingUpload({ ...upload, uploaded: true })
+      } else {
+        await uploadToStorage("course-files", filePath, file, { onProgress, signal })
+      }
+
+      // Canceled once the file was sent: it is not listed, so it goes too.
+      if (signal?.aborted) {
+        await supabase.storage.from("course-files").remove([filePath])
+        removePendingUpload(filePath)
+        signal.throwIfAborted()
+      }
+
+      return insertCourseFile(upload)
+    },
+    onSuccess: addFileToCache,
+  })
+}
+
+// Files of the account sharing the same content. Files linked to another
+// share its stored object, so only extra objects waste space.
+export interface DuplicateGroup {
+  contentHash: string
+  fileSize: number
+  wastedSize: number
+  files: DuplicateFile[]
+}
+
+function groupDuplicates(files: DuplicateFile[]): DuplicateGroup[] {
+  const byHash = new Map<string, DuplicateFile[]>()
+  for (const file of files) {
+    byHash.set(file.content_hash, [...(byHash.get(file.content_hash) ?? []), file])
+  }
+
+  return [...byHash.entries()]
+    .map(([contentHash, group]) => {
+      const objects = new Set(group.map((file) => file.file_path)).size
+      return {
+        contentHash,
+        fileSize: group[0].file_size ?? 0,
+        wastedSize: (group[0].file_size ?? 0) * (objects - 1),
+        files: group,
+      }
+    })
+    .filter((group) => group.wastedSize > 0)
+    .sort((a, b) => b.wastedSize - a.wastedSize)
+}
+
+// Only files uploaded since hashes are computed can be compared.
+export function useDuplicateReport(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: fileKeys.duplicates(),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("course_files")
+        .select("*, courses!inner ( title )")
+        .not("content_hash", "is", null)
+        .is("deleted_at", null)
+        .is("courses.deleted_at", null)
+        .order("created_at")
+
+      if (error) throw error
+      return groupDuplicates(data as DuplicateFile[])
+    },
+    enabled: options.enabled !== false,
+    meta: { errorMessage: "errors.findDuplicates" },
+  })
+}
+
+// Files of the account, in any course, whose content has this hash.
+export async function findDuplicateFiles(contentHash: string) {
+  const { data, error } = await supabase
+    .from("course_files")
+    .select("*, courses!inner ( title )")
+    .eq("content_hash", contentHash)
+    .is("deleted_at", null)
+    .is("courses.deleted_at", null)
+    .order("created_at")
+
+  if (error) throw error
+  return data as DuplicateFile[]
+}
+
+// Stored object with the content of source, for a file of the course.
+// Files of the same course share it; another course gets a copy made on the
+// server, so every object stays below the course it belongs to.
+async function linkObject(source: CourseFile, courseId: string) {
+  if (source.course_id === courseId) return source.file_path
+
+  const filePath = buildFilePath(source.user_id, courseId, source.filename)
+  const { error } = await supabase.storage
+    .from("course-files")
+    .copy(source.file_path, filePath)
+
+  if (error) throw error
+  return filePath
+}
+
+// Removes the copy made by linkObject when its row could not be written.
+async function unlinkObject(source: CourseFile, filePath: string) {
+  if (filePath !== source.file_path) {
+    await supabase.storage.from("course-files").remove([filePath])
+  }
+}
+
+// The file to link among duplicates: one of the course when there is one,
+// as it does not need a copy of the object.
+export function preferredDuplicate(duplicates: DuplicateFile[], courseId: string) {
+  return duplicates.find((file) => file.course_id === courseId) ?? duplicates[0]
+}
+
+interface LinkFileVariables {
+  source: CourseFile
+  courseId: string
+  folderId?: string | null
+  filename: string
+}
+
+// Adds a file with the content of an existing one instead of uploading the
+// same content again.
+export function useLinkFile() {
+  const addFileToCache = useAddFileToCache()
+
+  return useMutation({
+    mutationFn: async ({ source, courseId, folderId, filename }: LinkFileVariables) => {
+      const filePath = await linkObject(source, courseId)
+      const { data, error } = await supabase
+        .from("course_files")
+        .insert({
+          course_id: courseId,
+          user_id: source.user_id,
+          filename,
+          file_path: filePath,
+          folder_id: folderId ?? null,
+          file_size: source.file_size,
+          mime_type: source.mime_type,
+          content_hash: source.content_hash,
+        })
+        .select()
+        .single()
+
+      if (error) {
+        await unlinkObject(source, filePath)
+        throw error
+      }
+      return data
+    },
+    onSuccess: addFileToCache,
+  })
+}
+
+// Records a resumable upload whose object was completed before the page
+// was reloaded, as a new file or as the new version of one.
+export function useFinishPendingUpload() {
+  const addFileToCache = useAddFileToCache()
+  const replaceCachedFile = useReplaceCachedFile()
+
+  return useMutation({
+    mutationFn: (upload: PendingUpload) =>
+      upload.fileId ? recordFileVersion(upload) : insertCourseFile(upload),
+    onSuccess: (file, upload) =>
+      upload.fileId ? replaceCachedFile(file) : addFileToCache(file),
+  })
+}
+
+// Renames a file or moves it to another folder; the stored object stays
+// where it is.
+export function useUpdateFile() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      changes,
+    }: {
+      id: string
+      changes: TablesUpdate<"course_files">
+    }) => {
+      const { data, error } = await supabase
+        .from("course_files")
+        .update(changes)
+        .eq("id", id)
+        .select()
+        .single()
+
+      if (error) throw error
+      return data
+    },
+    onMutate: async ({ id, changes }) => {
+      const snapshot = await snapshotQueries(queryClient, fileKeys.lists())
+      patchCachedRow<CourseFile>(queryClient, fileKeys.lists(), id, changes)
+      return { snapshot }
+    },
+    onError: (_error, _variables, context) => {
+      restoreQueries(queryClient, context?.snapshot)
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: fileKeys.lists() })
+    },
+  })
+}
+
+// Previous contents of the file, newest first.
+export function useFileVersions(fileId: string | undefined) {
+  return useQuery({
+    queryKey: fileKeys.versions(fileId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("course_file_versions")
+        .select("*")
+        .eq("file_id", fileId)
+        .order("created_at", { ascending: false })
+
+      if (error) throw error
+      return data
+    },
+    enabled: !!fileId,
+    meta: { errorMessage: "errors.loadVersions" },
+  })
+}
+
+function useReplaceCachedFile() {
+  const queryClient = useQueryClient()
+
+  return (file: CourseFile) => {
+    patchCachedRow<CourseFile>(queryClient, fileKeys.lists(), file.id, file)
+    queryClient.invalidateQueries({ queryKey: fileKeys.versions(file.id) })
+  }
+}
+
+interface UploadVersionVariables extends UploadOptions {
+  file: CourseFile
+  upload: File
+  // SHA-256 of the upload when it was already computed.
+  contentHash?: string
+}
+
+// Points the file at the uploaded object once it is complete; the database
+// keeps the previous content as a version.
+async function recordFileVersion(upload: PendingUpload) {
+  const { data, error } = await supabase
+    .from("course_files")
+    .update({
+      file_path: upload.objectName,
+      file_size: upload.size,
+      mime_type: upload.type,
+      content_hash: upload.contentHash ?? null,
+    })
+    .eq("id", upload.fileId)
+    .select()
+    .single()
+
+  if (error) throw error
+  removePendingUpload(upload.objectName)
+  return data
+}
+
+// Replaces the content of a file. The name of the file is kept, whatever
+// the new upload is called. Large uploads are tracked like new files: one
+// cut off by a reload resumes when the same file is picked again for this
+// file, and one whose object was completed is recorded from the file list.
+export function useUploadFileVersion() {
+  const replaceCachedFile = useReplaceCachedFile()
+
+  return useMutation({
+    mutationFn: async ({ file, upload, onProgress, signal, ...variables }: UploadVersionVariables) => {
+      const stored = getPendingUploads().find(
+        (pending) => pending.fileId === file.id && isSameFile(pending, upload)
+      )
+      const pending: PendingUpload = {
+        ...(stored ?? {
+          ...createPendingUpload(file.user_id, file.course_id, upload, file.folder_id),
+          fileId: file.id,
+        }),
+        contentHash: variables.contentHash ?? stored?.contentHash ?? (await hashFile(upload, signal)),
+      }
+      const filePath = pending.objectName
+
+      if (upload.size > RESUMABLE_UPLOAD_THRESHOLD) {
+        savePendingUpload(pending)
+        try {
+          await uploadResumable("course-files", filePath, upload, {
+            onProgress,
+            signal,
+            uploadUrl: pending.uploadUrl,
+            onUploadUrl: (uploadUrl) => savePendingUpload({ ...pending, uploadUrl }),
+          })
+        } catch (error) {
+          if (isAbortError(error)) removePendingUpload(filePath)
+          throw error
+        }
+        savePendingUpload({ ...pending, uploaded: true })
+      } else {
+        await uploadToStorage("course-files", filePath, upload, { onProgress, signal })
+      }
+
+      try {
+        return await recordFileVersion(pending)
+      } catch (error) {
+        await supabase.storage.from("course-files").remove([filePath])
+        removePendingUpload(filePath)
+        throw error
+      }
+    },
+    onSuccess: replaceCachedFile,
+  })
+}
+
+// Makes the content of an existing file the new version of file, instead
+// of uploading the same content again.
+export function useLinkFileVersion() {
+  const replaceCachedFile = useReplaceCachedFile()
+
+  return useMutation({
+    mutationFn: async ({ file, source }: { file: CourseFile; source: CourseFile }) => {
+      const filePath = await linkObject(source, file.course_id)
+      const { data, error } = await supabase
+        .from("course_files")
+        .update({
+          file_path: filePath,
+          file_size: source.file_size,
+          mime_type: source.mime_type,
+          content_hash: source.content_hash,
+        })
+        .eq("id", file.id)
+        .select()
+        .single()
+
+      if (error) {
+        await unlinkObject(source, filePath)
+        throw error
+      }
+      return data
+    },
+    onSuccess: replaceCachedFile,
+  })
+}
+
+export function useRestoreFileVersion() {
+  const replaceCachedFile = useReplaceCachedFile()
+
+  return useMutation({
+    mutationFn: async (version: CourseFileVersion) => {
+      const { data, error } = await supabase.rpc("restore_course_file_version", {
+        version_id: version.id,
+      })
+
+      if (error) throw error
+      return data
+    },
+    onSuccess: replaceCachedFile,
+  })
+}
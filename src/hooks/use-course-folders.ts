@@ -0,0 +1,165 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { supabase } from "@/integrations/supabase/client"
+import type {
+  Tables,
+  TablesInsert,
+  TablesUpdate,
+} from "@/integrations/supabase/types"
+import { fileKeys } from "@/hooks/use-course-files"
+import { trashKeys } from "@/hooks/use-trash"
+import { readThrough } from "@/lib/offline-sync"
+import {
+  patchCachedRow,
+  removeCachedRow,
+  restoreQueries,
+  snapshotQueries,
+} from "@/lib/query-cache"
+
+export type CourseFolder = Tables<"course_folders">
+
+const byName = (a: CourseFolder, b: CourseFolder) => a.name.localeCompare(b.name)
+
+export const folderKeys = {
+  all: ["folders"] as const,
+  lists: () => [...folderKeys.all, "list"] as const,
+  list: (courseId: string) => [...folderKeys.lists(), courseId] as const,
+}
+
+// Every folder of the course, whatever its depth: the tree is small and
+// breadcrumbs need the ancestors of the open folder.
+export function useCourseFolders(courseId: string | undefined) {
+  return useQuery({
+    queryKey: folderKeys.list(courseId),
+    queryFn: () =>
+      readThrough(
+        "course_folders",
+        async () => {
+          const { data, error } = await supabase
+            .from("course_folders")
+            .select("*")
+            .eq("course_id", courseId)
+            .order("name")
+
+          if (error) throw error
+          return data
+        },
+        { match: (folder) => folder.course_id === courseId, compare: byName }
+      ),
+    enabled: !!courseId,
+    meta: { errorMessage: "errors.loadFolders" },
+  })
+}
+
+// From the root of the course down to the folder itself.
+export function getFolderPath(folders: CourseFolder[], folderId: string | null) {
+  const path: CourseFolder[] = []
+  let folder = folders.find((candidate) => candidate.id === folderId)
+  // Guards against a cycle left in the cache by a move the server refused.
+  while (folder && !path.includes(folder)) {
+    path.unshift(folder)
+    folder = folders.find((candidate) => candidate.id === folder.parent_id)
+  }
+  return path
+}
+
+// A folder cannot be moved into itself or one of its subfolders.
+export function isFolderInside(
+  folders: CourseFolder[],
+  folderId: string | null,
+  ancestorId: string
+) {
+  return getFolderPath(folders, folderId).some((folder) => folder.id === ancestorId)
+}
+
+// Folders in tree order, each with its depth, for pickers.
+export function flattenFolders(folders: CourseFolder[], parentId: string | null = null, depth = 0) {
+  return folders
+    .filter((folder) => folder.parent_id === parentId)
+    .flatMap((folder): { folder: CourseFolder; depth: number }[] => [
+      { folder, depth },
+      ...flattenFolders(folders, folder.id, depth + 1),
+    ])
+}
+
+export function useCreateFolder() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (folder: TablesInsert<"course_folders">) => {
+      const { data, error } = await supabase
+        .from("course_folders")
+        .insert(folder)
+        .select()
+        .single()
+
+      if (error) throw error
+      return data
+    },
+    onSuccess: (folder) => {
+      queryClient.setQueryData<CourseFolder[]>(
+        folderKeys.list(folder.course_id),
+        (folders) => folders && [...folders, folder].sort(byName)
+      )
+    },
+  })
+}
+
+// Renames or moves a folder.
+export function useUpdateFolder() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      changes,
+    }: {
+      id: string
+      changes: TablesUpdate<"course_folders">
+    }) => {
+      const { data, error } = await supabase
+        .from("course_folders")
+        .update(changes)
+        .eq("id", id)
+        .select()
+        .single()
+
+      if (error) throw error
+      return data
+    },
+    onMutate: async ({ id, changes }) => {
+      const snapshot = await snapshotQueries(queryClient, folderKeys.all)
+      patchCachedRow<CourseFolder>(queryClient, folderKeys.all, id, changes)
+      return { snapshot }
+    },
+    onError: (_error, _variables, context) => {
+      restoreQueries(queryClient, context?.snapshot)
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: folderKeys.all })
+    },
+  })
+}
+
+// Subfolders are deleted with the folder and the files they hold are moved
+// to the trash by the database.
+export function useDeleteFolder() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (folder: CourseFolder) => {
+      const { error } = await supabase
+        .from("course_folders")
+        .delete()
+        .eq("id", folder.id)
+
+      if (error) throw error
+    },
+    onSuccess: (_data, folder) => {
+      removeCachedRow(queryClient, folderKeys.all, folder.id)
+      queryClient.invalidateQueries({ queryKey: folderKeys.list(folder.course_id) })
+      queryClient.invalidateQueries({ queryKey: fileKeys.list(folder.course_id) })
+      queryClient.invalidateQueries({ queryKey: trashKeys.all })
+    },
+  })
+}
@@ -0,0 +1,304 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { supabase } from "@/integrations/supabase/client"
+import type { Tables, TablesInsert } from "@/integrations/supabase/types"
+import { patchCachedRow } from "@/lib/query-cache"
+import {
+  getMirroredRow,
+  getMirroredRows,
+  patchMirroredRow,
+  putMirroredRow,
+  queueWrite,
+} from "@/lib/offline-db"
+import {
+  flushWrites,
+  hasPendingWrites,
+  isOffline,
+  readThrough,
+} from "@/lib/offline-sync"
+
+export type CourseNote = Tables<"course_notes">
+
+export type NoteWithCourse = CourseNote & {
+  courses: Pick<Tables<"courses">, "title" | "color"> | null
+}
+
+// Notes are always fetched with their course, so that every mirrored note can
+// be listed offline.
+const NOTE_COLUMNS = "*, courses ( title, color )"
+
+const byUpdatedAt = (a: CourseNote, b: CourseNote) =>
+  b.updated_at.localeCompare(a.updated_at)
+
+export const noteKeys = {
+  all: ["notes"] as const,
+  lists: () => [...noteKeys.all, "list"] as const,
+  list: (courseId?: string) =>
+    [...noteKeys.lists(), courseId ?? "all"] as const,
+  count: () => [...noteKeys.all, "count"] as const,
+  detail: (id: string) => [...noteKeys.all, "detail", id] as const,
+  revisions: (id: string) => [...noteKeys.detail(id), "revisions"] as const,
+}
+
+// Every note of the user, with the title and color of its course.
+export function useNotes(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: noteKeys.list(),
+    queryFn: () =>
+      readThrough(
+        "course_notes",
+        async (): Promise<NoteWithCourse[]> => {
+          const { data, error } = await supabase
+            .from("course_notes")
+            .select(NOTE_COLUMNS)
+            .is("deleted_at", null)
+            .order("updated_at", { ascending: false })
+
+          if (error) throw error
+          return data
+        },
+        { match: (note) => !note.deleted_at, compare: byUpdatedAt }
+      ),
+    enabled: options.enabled,
+    meta: { errorMessage: "errors.loadNotes" },
+  })
+}
+
+export function useCourseNotes(
+  courseId: string | undefined,
+  options: { enabled?: boolean } = {}
+) {
+  return useQuery({
+    queryKey: noteKeys.list(courseId),
+    queryFn: () =>
+      readThrough(
+        "course_notes",
+        async (): Promise<NoteWithCourse[]> => {
+          const { data, error } = await supabase
+            .from("course_notes")
+            .select(NOTE_COLUMNS)
+            .eq("course_id", courseId)
+            .is("deleted_at", null)
+            .order("updated_at", { ascending: false })
+
+          if (error) throw error
+          return data
+        },
+        {
+          match: (note) => note.course_id === courseId && !note.deleted_at,
+          compare: byUpdatedAt,
+        }
+      ),
+    enabled: !!courseId && options.enabled !== false,
+    meta: { errorMessage: "errors.loadCourseNotes" },
+  })
+}
+
+export function useNoteCount() {
+  return useQuery({
+    queryKey: noteKeys.count(),
+    queryFn: async () => {
+      if (isOffline()) {
+        const notes = await getMirroredRows("course_notes")
+        return notes.filter((note) => !note.deleted_at).length
+      }
+
+      const { count, error } = await supabase
+        .from("course_notes")
+        .select("*", { count: "exact", head: true })
+        .is("deleted_at", null)
+
+      if (error) throw error
+      return count || 0
+    },
+    meta: { errorMessage: "errors.loadData" },
+  })
+}
+
+// Resolves to null when the note does not exist or is in the trash.
+export function useNote(id: string | undefined, courseId: string | undefined) {
+  return useQuery({
+    queryKey: noteKeys.detail(id),
+    queryFn: async () => {
+      const [note] = await readThrough(
+        "course_notes",
+        async (): Promise<NoteWithCourse[]> => {
+          const { data, error } = await supabase
+            .from("course_notes")
+            .select(NOTE_COLUMNS)
+            .eq("id", id)
+            .eq("course_id", courseId)
+            .is("deleted_at", null)
+            .maybeSingle()
+
+          if (error) throw error
+          return data ? [data] : []
+        },
+        {
+          match: (note) =>
+            note.id === id && note.course_id === courseId && !note.deleted_at,
+        }
+      )
+      return (note as NoteWithCourse) ?? null
+    },
+    enabled: !!id && !!courseId,
+    meta: { errorMessage: "errors.loadNote" },
+  })
+}
+
+export function useNoteRevisions(noteId: string, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: noteKeys.revisions(noteId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("course_note_revisions")
+        .select("id, title, content, created_at")
+        .eq("note_id", noteId)
+        .order("created_at", { ascending: false })
+
+      if (error) throw error
+      return data
+    },
+    enabled: options.enabled,
+    meta: { errorMessage: "errors.loadHistory" },
+  })
+}
+
+export function useCreateNote() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (note: TablesInsert<"course_notes">) => {
+      if (isOffline()) {
+        return createNoteOffline(note)
+      }
+
+      const { data, error } = await supabase
+        .from("course_notes")
+        .insert(note)
+        .select()
+        .single()
+
+      if (error) throw error
+      return data
+    },
+    onSuccess: (note) => {
+      queryClient.setQueryData<CourseNote[]>(
+        noteKeys.list(note.course_id),
+        (notes) => notes && [note, ...notes]
+      )
+      queryClient.invalidateQueries({ queryKey: noteKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: noteKeys.count() })
+    },
+  })
+}
+
+async function createNoteOffline(
+  note: TablesInsert<"course_notes">
+): Promise<CourseNote> {
+  const now = new Date().toISOString()
+  const row: CourseNote = {
+    id: crypto.randomUUID(),
+    course_id: note.course_id,
+    user_id: note.user_id,
+    title: note.title,
+    content: note.content ?? null,
+    created_at: now,
+    updated_at: now,
+    deleted_at: null,
+  }
+
+  const course = await getMirroredRow("courses", note.course_id)
+  const mirrored: NoteWithCourse = {
+    ...row,
+    courses: course ? { title: course.title, color: course.color } : null,
+  }
+
+  await putMirroredRow("course_notes", mirrored)
+  await queueWrite({
+    table: "course_notes",
+    id: row.id,
+    kind: "insert",
+    values: row,
+    expectedUpdatedAt: null,
+    queuedAt: now,
+  })
+  return row
+}
+
+interface SaveNoteVariables {
+  id: string
+  title: string
+  content: string
+  // When set, the note is only written if it still has this updated_at.
+  expectedUpdatedAt?: string
+}
+
+// Applies the save to the mirrored note and queues it for the server.
+async function saveNoteOffline({
+  id,
+  title,
+  content,
+  expectedUpdatedAt,
+}: SaveNoteVariables): Promise<CourseNote | null> {
+  const current = await getMirroredRow("course_notes", id)
+  if (!current) throw new Error("Note unavailable offline")
+  if (expectedUpdatedAt && current.updated_at !== expectedUpdatedAt) return null
+
+  const now = new Date().toISOString()
+  const updated = { ...current, title, content, updated_at: now }
+
+  await putMirroredRow("course_notes", updated)
+  await queueWrite({
+    table: "course_notes",
+    id,
+    kind: "update",
+    values: { title, content },
+    expectedUpdatedAt: current.updated_at,
+    queuedAt: now,
+  })
+  return updated
+}
+
+// Resolves to null when the note was changed since expectedUpdatedAt.
+export function useSaveNote() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (variables: SaveNoteVariables) => {
+      // Saves queue behind pending offline writes to keep them in order.
+      if (isOffline() || (await hasPendingWrites())) {
+        const note = await saveNoteOffline(variables)
+        if (!isOffline()) flushWrites()
+        return note
+      }
+
+      const { id, title, content, expectedUpdatedAt } = variables
+
+      let query = supabase
+        .from("course_notes")
+        .update({ title, content })
+        .eq("id", id)
+
+      if (expectedUpdatedAt) {
+        query = query.eq("updated_at", expectedUpdatedAt)
+      }
+
+      const { data, error } = await query.select().maybeSingle()
+
+      if (error) throw error
+      if (data) {
+        await patchMirroredRow("course_notes", data.id, data).catch(() => undefined)
+      }
+      return data
+    },
+    onSuccess: (note) => {
+      if (!note) return
+
+      patchCachedRow<CourseNote>(queryClient, noteKeys.all, note.id, note)
+      // Lists are ordered by updated_at, and the save added a revision.
+      queryClient.invalidateQueries({ queryKey: noteKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: noteKeys.revisions(note.id) })
+    },
+  })
+}
@@ -0,0 +1,131 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { supabase } from "@/integrations/supabase/client"
+import type {
+  Tables,
+  TablesInsert,
+  TablesUpdate,
+} from "@/integrations/supabase/types"
+import {
+  patchCachedRow,
+  restoreQueries,
+  snapshotQueries,
+} from "@/lib/query-cache"
+import { readThrough } from "@/lib/offline-sync"
+
+export type Course = Tables<"courses">
+
+const byUpdatedAt = (a: Course, b: Course) =>
+  b.updated_at.localeCompare(a.updated_at)
+
+export const courseKeys = {
+  all: ["courses"] as const,
+  lists: () => [...courseKeys.all, "list"] as const,
+  detail: (id: string) => [...courseKeys.all, "detail", id] as const,
+}
+
+export function useCourses(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: courseKeys.lists(),
+    queryFn: () =>
+      readThrough(
+        "courses",
+        async () => {
+          const { data, error } = await supabase
+            .from("courses")
+            .select("*")
+            .is("deleted_at", null)
+            .order("updated_at", { ascending: false })
+
+          if (error) throw error
+          return data
+        },
+        { match: (course) => !course.deleted_at, compare: byUpdatedAt }
+      ),
+    enabled: options.enabled,
+    meta: { errorMessage: "errors.loadCourses" },
+  })
+}
+
+// Resolves to null when the course does not exist or is in the trash.
+export function useCourse(id: string | undefined) {
+  return useQuery({
+    queryKey: courseKeys.detail(id),
+    queryFn: async () => {
+      const [course] = await readThrough(
+        "courses",
+        async () => {
+          const { data, error } = await supabase
+            .from("courses")
+            .select("*")
+            .eq("id", id)
+            .is("deleted_at", null)
+            .maybeSingle()
+
+          if (error) throw error
+          return data ? [data] : []
+        },
+        { match: (course) => course.id === id && !course.deleted_at }
+      )
+      return course ?? null
+    },
+    enabled: !!id,
+    meta: { errorMessage: "errors.loadCourse" },
+  })
+}
+
+export function useCreateCourse() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (course: TablesInsert<"courses">) => {
+      const { data, error } = await supabase
+        .from("courses")
+        .insert(course)
+        .select()
+        .single()
+
+      if (error) throw error
+      return data
+    },
+    onSuccess: (course) => {
+      queryClient.setQueryData(courseKeys.detail(course.id), course)
+      queryClient.invalidateQueries({ queryKey: courseKeys.lists() })
+    },
+  })
+}
+
+export function useUpdateCourse() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      changes,
+    }: {
+      id: string
+      changes: TablesUpdate<"courses">
+    }) => {
+      const { data, error } = await supabase
+        .from("courses")
+        .update(changes)
+        .eq("id", id)
+        .select()
+        .single()
+
+      if (error) throw error
+      return data
+    },
+    onMutate: async ({ id, changes }) => {
+      const snapshot = await snapshotQueries(queryClient, courseKeys.all)
+      patchCachedRow<Course>(queryClient, courseKeys.all, id, changes)
+      return { snapshot }
+    },
+    onError: (_error, _variables, context) => {
+      restoreQueries(queryClient, context?.snapshot)
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: courseKeys.all })
+    },
+  })
+}
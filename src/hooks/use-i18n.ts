@@ -0,0 +1,23 @@
+import * as React from "react"
+
+import type { Locale, MessageKey, MessageParams } from "@/lib/i18n"
+
+export interface I18nState {
+  locale: Locale
+  // Applies the locale right away and saves it to the profile when signed in.
+  setLocale: (locale: Locale) => void
+  t: (key: MessageKey, params?: MessageParams) => string
+  formatDate: (date: string | number | Date, pattern?: string) => string
+  formatFileSize: (bytes: number) => string
+}
+
+export const I18nContext = React.createContext<I18nState | null>(null)
+
+export function useI18n() {
+  const context = React.useContext(I18nContext)
+  if (!context) {
+    throw new Error("useI18n must be used within an I18nProvider.")
+  }
+
+  return context
+}
@@ -0,0 +1,37 @@
+import * as React from "react"
+import { useQueryClient } from "@tanstack/react-query"
+
+import { noteKeys } from "@/hooks/use-course-notes"
+import {
+  flushWrites,
+  getSyncState,
+  refreshPendingCount,
+  subscribeSyncState,
+} from "@/lib/offline-sync"
+
+export function useSyncState() {
+  return React.useSyncExternalStore(subscribeSyncState, getSyncState)
+}
+
+// Replays the writes made offline when the app starts and whenever the
+// connection comes back.
+export function useOfflineSync(userId: string | undefined) {
+  const queryClient = useQueryClient()
+
+  React.useEffect(() => {
+    if (!userId) return
+
+    const sync = async () => {
+      const { synced, conflicts } = await flushWrites()
+      if (synced + conflicts > 0) {
+        queryClient.invalidateQueries({ queryKey: noteKeys.all })
+      }
+    }
+
+    refreshPendingCount().catch(() => undefined)
+    sync()
+
+    window.addEventListener("online", sync)
+    return () => window.removeEventListener("online", sync)
+  }, [userId, queryClient])
+}
@@ -0,0 +1,58 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { supabase } from "@/integrations/supabase/client"
+import { useAuth } from "@/hooks/use-auth"
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types"
+
+export type Profile = Tables<"profiles">
+
+export const profileKeys = {
+  all: ["profile"] as const,
+  detail: (userId: string) => [...profileKeys.all, userId] as const,
+}
+
+export function useProfile() {
+  const { user } = useAuth()
+  const userId = user?.id
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: profileKeys.detail(userId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("*")
+        .eq("id", userId)
+        .maybeSingle()
+
+      if (error) throw error
+      return data
+    },
+    enabled: !!userId,
+  })
+
+  return { profile: data ?? null, loading: isLoading, error }
+}
+
+// The saved profile replaces the cached one, so the sidebar and every other
+// reader pick up the change right away.
+export function useUpdateProfile() {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (changes: TablesUpdate<"profiles">) => {
+      // Upsert covers accounts created before profiles existed.
+      const { data, error } = await supabase
+        .from("profiles")
+        .upsert({ ...changes, id: user.id })
+        .select()
+        .single()
+
+      if (error) throw error
+      return data
+    },
+    onSuccess: (profile) => {
+      queryClient.setQueryData(profileKeys.detail(profile.id), profile)
+    },
+  })
+}
@@ -0,0 +1,98 @@
+import * as React from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import type { QueryKey } from "@tanstack/react-query"
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js"
+
+import { supabase } from "@/integrations/supabase/client"
+import { courseKeys } from "@/hooks/use-courses"
+import { fileKeys } from "@/hooks/use-course-files"
+import { folderKeys } from "@/hooks/use-course-folders"
+import { noteKeys } from "@/hooks/use-course-notes"
+import { trashKeys } from "@/hooks/use-trash"
+import { getMirroredRow } from "@/lib/offline-db"
+import { isCachedRow, patchCachedRow, removeCachedRow } from "@/lib/query-cache"
+
+type SyncedTable = "courses" | "course_notes" | "course_files" | "course_folders"
+
+// Folders have no deleted_at: they are deleted outright.
+type SyncedRow = { id: string; deleted_at?: string | null }
+
+const syncedKeys: Record<SyncedTable, { all: QueryKey; lists: QueryKey }> = {
+  courses: { all: courseKeys.all, lists: courseKeys.lists() },
+  course_notes: { all: noteKeys.all, lists: noteKeys.lists() },
+  course_files: { all: fileKeys.all, lists: fileKeys.lists() },
+  course_folders: { all: folderKeys.all, lists: folderKeys.lists() },
+}
+
+// Feeds the changes made by the user on other tabs and devices into the
+// query cache. Our own writes come back too, and are harmless to re-apply.
+export function useRealtimeSync(userId: string | undefined) {
+  const queryClient = useQueryClient()
+
+  React.useEffect(() => {
+    if (!userId) return
+
+    const applyChange = (
+      table: SyncedTable,
+      payload: RealtimePostgresChangesPayload<SyncedRow>
+    ) => {
+      const keys = syncedKeys[table]
+
+      if (payload.eventType === "DELETE" || payload.new.deleted_at) {
+        const id = payload.eventType === "DELETE" ? payload.old.id : payload.new.id
+        removeCachedRow(queryClient, keys.all, id)
+        // Refetches an open course or note so the page sees it is gone.
+        queryClient.invalidateQueries({ queryKey: keys.all })
+      } else if (payload.eventType === "UPDATE") {
+        patchCachedRow<SyncedRow>(queryClient, keys.all, payload.new.id, payload.new)
+      }
+
+      // Lists are filtered and ordered by the server, which also places
+      // inserted and restored rows.
+      queryClient.invalidateQueries({ queryKey: keys.lists })
+      queryClient.invalidateQueries({ queryKey: trashKeys.all })
+      if (table === "course_notes") {
+        queryClient.invalidateQueries({ queryKey: noteKeys.count() })
+      }
+    }
+
+    // Hard deletes of rows this client has seen, in the cache or the
+    // offline mirror. Anything else is another user's row.
+    const isKnownRow = async (table: SyncedTable, id: string) =>
+      isCachedRow(queryClient, syncedKeys[table].all, id) ||
+      isCachedRow(queryClient, trashKeys.all, id) ||
+      (await getMirroredRow(table, id).catch(() => undefined)) !== undefined
+
+    // Realtime neither filters nor applies RLS to deletes: every user's
+    // deletes of these tables arrive, and only known rows are handled.
+    let channel = supabase.channel(`sync:${userId}`)
+    for (const table of Object.keys(syncedKeys) as SyncedTable[]) {
+      const filter = `user_id=eq.${userId}`
+      channel = channel
+        .on<SyncedRow>(
+          "postgres_changes",
+          { event: "INSERT", schema: "public", table, filter },
+          (payload) => applyChange(table, payload)
+        )
+        .on<SyncedRow>(
+          "postgres_changes",
+          { event: "UPDATE", schema: "public", table, filter },
+          (payload) => applyChange(table, payload)
+        )
+        .on<SyncedRow>(
+          "postgres_changes",
+          { event: "DELETE", schema: "public", table },
+          async (payload) => {
+            if (payload.old.id && await isKnownRow(table, payload.old.id)) {
+              applyChange(table, payload)
+            }
+          }
+        )
+    }
+    channel.subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [userId, queryClient])
+}
@@ -0,0 +1,64 @@
+import * as React from "react"
+import { keepPreviousData, useQuery } from "@tanstack/react-query"
+
+import { supabase } from "@/integrations/supabase/client"
+import type { Database } from "@/integrations/supabase/types"
+import { useSyncState } from "@/hooks/use-offline-sync"
+
+export type SearchHit =
+  Database["public"]["Functions"]["search_everything"]["Returns"][number]
+
+export type SearchKind = "course" | "note" | "file"
+
+const SEARCH_DEBOUNCE = 250
+
+export const searchKeys = {
+  all: ["search"] as const,
+  results: (term: string, maxResults: number, kinds?: SearchKind[]) =>
+    [...searchKeys.all, term, maxResults, kinds ?? null] as const,
+}
+
+// Pass kinds to rank only those: otherwise hits of other kinds can take
+// up the whole maxResults. Search runs on the server: offline or when it
+// fails, `unavailable` tells lists to filter what they have instead.
+export function useSearch(query: string, maxResults = 20, kinds?: SearchKind[]) {
+  const term = query.trim()
+  const offline = useSyncState().status === "offline"
+  const [debouncedTerm, setDebouncedTerm] = React.useState(term)
+
+  React.useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedTerm(term), SEARCH_DEBOUNCE)
+    return () => clearTimeout(timeout)
+  }, [term])
+
+  // Results of the previous term stay visible while the next one loads.
+  const { data, isFetching, error } = useQuery({
+    queryKey: searchKeys.results(debouncedTerm, maxResults, kinds),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("search_everything", {
+        search_query: debouncedTerm,
+        max_results: maxResults,
+        kinds,
+      })
+
+      if (error) throw new Error(error.message)
+      return data || []
+    },
+    enabled: !!debouncedTerm && !offline,
+    placeholderData: keepPreviousData,
+    meta: { errorMessage: "search.error" },
+  })
+
+  if (!term) {
+    return { results: [] as SearchHit[], loading: false, pending: false, unavailable: false, error: null }
+  }
+
+  return {
+    results: data || [],
+    loading: !offline && (term !== debouncedTerm || isFetching),
+    // No results to show yet, not even those of a previous term.
+    pending: data === undefined && !error,
+    unavailable: offline || !!error,
+    error,
+  }
+}
@@ -0,0 +1,46 @@
+import { useCallback } from "react"
+import { useTheme } from "next-themes"
+
+import { toast } from "@/hooks/use-toast"
+import { useAuth } from "@/hooks/use-auth"
+import { useI18n } from "@/hooks/use-i18n"
+import { useUpdateProfile } from "@/hooks/use-profile"
+
+export type Theme = "light" | "dark" | "system"
+
+export const THEMES: Theme[] = ["light", "dark", "system"]
+
+export function isTheme(value: unknown): value is Theme {
+  return THEMES.includes(value as Theme)
+}
+
+// The theme applies right away on this device and is saved to the profile,
+// so it follows the user when signing in elsewhere.
+export function useThemePreference() {
+  const { theme, resolvedTheme, setTheme } = useTheme()
+  const { user } = useAuth()
+  const { t } = useI18n()
+  const { mutate: updateProfile } = useUpdateProfile()
+
+  const changeTheme = useCallback((next: Theme) => {
+    setTheme(next)
+
+    if (user) {
+      updateProfile({ theme: next }, {
+        onError: () => {
+          toast({
+            variant: "destructive",
+            title: t("common.error"),
+            description: t("theme.saveError"),
+          })
+        },
+      })
+    }
+  }, [setTheme, user, updateProfile, t])
+
+  return {
+    theme: isTheme(theme) ? theme : "system",
+    resolvedTheme: resolvedTheme === "dark" ? "dark" as const : "light" as const,
+    setTheme: changeTheme,
+  }
+}
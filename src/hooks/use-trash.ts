@@ -0,0 +1,207 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import type { QueryKey } from "@tanstack/react-query"
+
+import { supabase } from "@/integrations/supabase/client"
+import { courseKeys } from "@/hooks/use-courses"
+import { fileKeys } from "@/hooks/use-course-files"
+import { noteKeys } from "@/hooks/use-course-notes"
+import {
+  removeCachedRow,
+  restoreQueries,
+  snapshotQueries,
+} from "@/lib/query-cache"
+import { moveToTrash, restoreFromTrash, type TrashableTable } from "@/lib/trash"
+
+export type TrashKind = "course" | "note" | "file"
+
+export interface TrashItem {
+  kind: TrashKind
+  id: string
+  title: string
+  deleted_at: string
+  color: string | null
+  courseTitle?: string
+  filePath?: string
+}
+
+export const trashKeys = {
+  all: ["trash"] as const,
+}
+
+const tableKeys: Record<TrashableTable, QueryKey> = {
+  courses: courseKeys.all,
+  course_notes: noteKeys.all,
+  course_files: fileKeys.all,
+}
+
+export const tableFor = (kind: TrashKind): TrashableTable =>
+  kind === "course" ? "courses" : kind === "note" ? "course_notes" : "course_files"
+
+interface TrashVariables {
+  table: TrashableTable
+  id: string
+}
+
+// Trashing or restoring a course cascades to its notes and files, so every
+// list is refreshed afterwards.
+function invalidateAll(queryClient: ReturnType<typeof useQueryClient>) {
+  for (const queryKey of [courseKeys.all, noteKeys.all, fileKeys.all, trashKeys.all]) {
+    queryClient.invalidateQueries({ queryKey })
+  }
+}
+
+export function useTrash() {
+  return useQuery({
+    queryKey: trashKeys.all,
+    queryFn: async (): Promise<TrashItem[]> => {
+      const { data: coursesData, error: coursesError } = await supabase
+        .from("courses")
+        .select("id, title, color, deleted_at")
+        .not("deleted_at", "is", null)
+
+      if (coursesError) throw coursesError
+
+      // Notes and files trashed together with their course are restored
+      // through the course, so only individually deleted ones are listed.
+      const { data: notesData, error: notesError } = await supabase
+        .from("course_notes")
+        .select("id, title, deleted_at, courses!inner ( title, color, deleted_at )")
+        .not("deleted_at", "is", null)
+        .is("courses.deleted_at", null)
+
+      if (notesError) throw notesError
+
+      const { data: filesData, error: filesError } = await supabase
+        .from("course_files")
+        .select("id, filename, file_path, deleted_at, courses!inner ( title, color, deleted_at )")
+        .not("deleted_at", "is", null)
+        .is("courses.deleted_at", null)
+
+      if (filesError) throw filesError
+
+      const trash: TrashItem[] = [
+        ...(coursesData || []).map((course) => ({
+          kind: "course" as const,
+          id: course.id,
+          title: course.title,
+          deleted_at: course.deleted_at,
+          color: course.color,
+        })),
+        ...(notesData || []).map((note) => ({
+          kind: "note" as const,
+          id: note.id,
+          title: note.title,
+          deleted_at: note.deleted_at,
+          color: note.courses.color,
+          courseTitle: note.courses.title,
+        })),
+        ...(filesData || []).map((file) => ({
+          kind: "file" as const,
+          id: file.id,
+          title: file.filename,
+          deleted_at: file.deleted_at,
+          color: file.courses.color,
+          courseTitle: file.courses.title,
+          filePath: file.file_path,
+        })),
+      ]
+
+      return trash.sort((a, b) => b.deleted_at.localeCompare(a.deleted_at))
+    },
+    meta: { errorMessage: "errors.loadTrash" },
+  })
+}
+
+export function useMoveToTrash() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ table, id }: TrashVariables) => moveToTrash(table, id),
+    onMutate: async ({ table, id }) => {
+      const snapshot = await snapshotQueries(queryClient, tableKeys[table])
+      removeCachedRow(queryClient, tableKeys[table], id)
+      return { snapshot }
+    },
+    onError: (_error, _variables, context) => {
+      restoreQueries(queryClient, context?.snapshot)
+    },
+    onSettled: () => invalidateAll(queryClient),
+  })
+}
+
+export function useRestoreFromTrash() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ table, id }: TrashVariables) => restoreFromTrash(table, id),
+    onMutate: async ({ id }) => {
+      const snapshot = await snapshotQueries(queryClient, trashKeys.all)
+      removeCachedRow(queryClient, trashKeys.all, id)
+      return { snapshot }
+    },
+    onError: (_error, _variables, context) => {
+      restoreQueries(queryClient, context?.snapshot)
+    },
+    onSettled: () => invalidateAll(queryClient),
+  })
+}
+
+export function useDeleteForever() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (item: TrashItem) => {
+      if (item.kind === "course") {
+        const { error } = await supabase.functions.invoke("delete-course", {
+          body: { course_id: item.id },
+        })
+        if (error) throw error
+        return
+      }
+
+      // Previous versions of a file are stored objects of their own.
+      if (item.kind === "file" && item.filePath) {
+        const { data: versions, error: versionsError } = await supabase
+          .from("course_file_versions")
+          .select("file_path")
+          .eq("file_id", item.id)
+        if (versionsError) throw versionsError
+
+        const paths = [item.filePath, ...versions.map((version) => version.file_path)]
+
+        // Files linked to one another share their object.
+        const { data: referenced, error: referencedError } = await supabase.rpc(
+          "referenced_course_file_paths",
+          { paths, deleted_file_ids: [item.id] }
+        )
+        if (referencedError) throw referencedError
+
+        const removable = paths.filter((path) => !referenced.includes(path))
+
+        if (removable.length > 0) {
+          const { error: storageError } = await supabase.storage
+            .from("course-files")
+            .remove(removable)
+          if (storageError) throw storageError
+        }
+      }
+
+      const { error } = await supabase
+        .from(tableFor(item.kind))
+        .delete()
+        .eq("id", item.id)
+      if (error) throw error
+    },
+    onMutate: async (item) => {
+      const snapshot = await snapshotQueries(queryClient, trashKeys.all)
+      removeCachedRow(queryClient, trashKeys.all, item.id)
+      return { snapshot }
+    },
+    onError: (_error, _item, context) => {
+      restoreQueries(queryClient, context?.snapshot)
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: trashKeys.all })
+    },
+  })
+}
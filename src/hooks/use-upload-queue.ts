@@ -0,0 +1,297 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import { useAuth } from "@/hooks/use-auth"
+import {
+  createPendingUpload,
+  findDuplicateFiles,
+  preferredDuplicate,
+  useFinishPendingUpload,
+  useLinkFile,
+  useUploadFile,
+  type DuplicateFile,
+} from "@/hooks/use-course-files"
+import type { PickedFile } from "@/lib/dropped-files"
+import { hashFile } from "@/lib/file-hash"
+import {
+  getPendingUploads,
+  isSameFile,
+  removePendingUpload,
+  type PendingUpload,
+} from "@/lib/pending-uploads"
+import { RESUMABLE_UPLOAD_THRESHOLD, discardResumableUpload } from "@/lib/resumable-upload"
+import { isAbortError } from "@/lib/storage-upload"
+
+// "interrupted" uploads were cut off by a reload and wait for the user to
+// pick the same file again. "duplicate" ones wait for the user to link the
+// existing file or upload theirs anyway.
+export type UploadStatus =
+  | "queued"
+  | "hashing"
+  | "uploading"
+  | "done"
+  | "error"
+  | "canceled"
+  | "interrupted"
+  | "duplicate"
+
+export interface UploadItem {
+  id: string
+  courseId: string
+  folderId: string | null
+  // Missing for interrupted uploads until the file is picked again.
+  file?: File
+  path: string
+  size: number
+  status: UploadStatus
+  // From 0 to 1.
+  progress: number
+  // Reason given by the server when the upload failed.
+  error?: string
+  // Set for resumable uploads.
+  pending?: PendingUpload
+  // SHA-256 of the file, once computed.
+  contentHash?: string
+  // Files of the account with the same content, oldest first.
+  duplicates?: DuplicateFile[]
+  // Uploaded even though the same content exists, or already checked.
+  ignoreDuplicates?: boolean
+  // Done by linking an existing file rather than uploading.
+  linked?: boolean
+}
+
+// More parallel uploads compete for the same bandwidth without finishing
+// the batch sooner, and make every file's progress crawl.
+export const MAX_PARALLEL_UPLOADS = 3
+
+function errorMessage(error: unknown) {
+  return (error as { message?: string })?.message || String(error)
+}
+
+// Uploads files into a course a few at a time. Each file can be canceled
+// while queued or uploading, and retried once it failed or was canceled.
+// Resumable uploads left over from a previous visit are listed again.
+// Files whose content is already stored are held back until the user
+// decides to link the existing file or upload anyway.
+export function useUploadQueue(courseId: string | undefined) {
+  const { user } = useAuth()
+  const { mutateAsync: uploadFile } = useUploadFile()
+  const { mutateAsync: finishPendingUpload } = useFinishPendingUpload()
+  const { mutateAsync: linkFile } = useLinkFile()
+  const [items, setItems] = useState<UploadItem[]>([])
+  const controllers = useRef(new Map<string, AbortController>())
+  const userId = user?.id
+
+  const updateItem = useCallback((id: string, changes: Partial<UploadItem>) => {
+    setItems((current) =>
+      current.map((item) => (item.id === id ? { ...item, ...changes } : item))
+    )
+  }, [])
+
+  // Uploads whose object is already complete only need their row.
+  useEffect(() => {
+    if (!courseId || !userId) return
+
+    // Unfinished version uploads resume from the versions of their file.
+    const leftovers = getPendingUploads().filter(
+      (upload) =>
+        upload.courseId === courseId &&
+        upload.userId === userId &&
+        (upload.uploaded || !upload.fileId)
+    )
+    setItems((current) => [
+      ...current,
+      ...leftovers
+        .filter((upload) =>
+          !current.some((item) => item.pending?.objectName === upload.objectName)
+        )
+        .map((upload) => ({
+          id: crypto.randomUUID(),
+          courseId,
+          folderId: upload.folderId ?? null,
+          path: upload.filename,
+          size: upload.size,
+          status: upload.uploaded ? "queued" as const : "interrupted" as const,
+          progress: upload.uploaded ? 1 : 0,
+          pending: upload,
+          // The user already chose to upload it.
+          ignoreDuplicates: true,
+        })),
+    ])
+  }, [courseId, userId])
+
+  const start = useCallback(async (item: UploadItem) => {
+    const controller = new AbortController()
+    controllers.current.set(item.id, controller)
+    updateItem(item.id, { status: item.file ? "hashing" : "uploading", error: undefined })
+
+    try {
+      if (item.file) {
+        const contentHash =
+          item.contentHash ??
+          item.pending?.contentHash ??
+          (await hashFile(item.file, controller.signal))
+
+        if (!item.ignoreDuplicates) {
+          const duplicates = await findDuplicateFiles(contentHash)
+          controller.signal.throwIfAborted()
+          if (duplicates.length > 0) {
+            updateItem(item.id, { status: "duplicate", contentHash, duplicates })
+            return
+          }
+        }
+
+        // A retry goes straight to the upload.
+        updateItem(item.id, { status: "uploading", contentHash, ignoreDuplicates: true })
+        await uploadFile({
+          userId: user.id,
+          courseId: item.courseId,
+          folderId: item.folderId,
+          file: item.file,
+          pending: item.pending,
+          contentHash,
+          signal: controller.signal,
+          onProgress: (progress) => updateItem(item.id, { progress }),
+        })
+      } else {
+        await finishPendingUpload(item.pending)
+      }
+      updateItem(item.id, { status: "done", progress: 1 })
+    } catch (error) {
+      if (isAbortError(error)) {
+        updateItem(item.id, { status: "canceled", progress: 0 })
+      } else {
+        updateItem(item.id, { status: "error", error: errorMessage(error) })
+      }
+    } finally {
+      controllers.current.delete(item.id)
+    }
+  }, [user, uploadFile, finishPendingUpload, updateItem])
+
+  // Started items are tracked in `controllers` right away, so they are not
+  // picked again before their new status is rendered.
+  useEffect(() => {
+    const active = items.filter((item) =>
+      item.status === "hashing" || item.status === "uploading"
+    ).length
+    items
+      .filter((item) => item.status === "queued" && !controllers.current.has(item.id))
+      .slice(0, Math.max(0, MAX_PARALLEL_UPLOADS - active))
+      .forEach(start)
+  }, [items, start])
+
+  // Picking the file of an interrupted upload again resumes that upload,
+  // into the folder it was meant for.
+  const addFiles = useCallback((files: PickedFile[], folderId: string | null = null) => {
+    if (!courseId || !userId) return
+
+    setItems((current) => {
+      const next = [...current]
+      for (const { file, path } of files) {
+        const index = next.findIndex((item) =>
+          item.courseId === courseId &&
+          item.status === "interrupted" &&
+          isSameFile(item.pending, file)
+        )
+
+        if (index > -1) {
+          next[index] = { ...next[index], file, status: "queued" }
+        } else {
+          next.push({
+            id: crypto.randomUUID(),
+            courseId,
+            folderId,
+            file,
+            path,
+            size: file.size,
+            status: "queued",
+            progress: 0,
+            pending: file.size > RESUMABLE_UPLOAD_THRESHOLD
+              ? createPendingUpload(userId, courseId, file, folderId)
+              : undefined,
+          })
+        }
+      }
+      return next
+    })
+  }, [courseId, userId])
+
+  const cancel = useCallback((id: string) => {
+    const controller = controllers.current.get(id)
+    if (controller) {
+      controller.abort()
+      return
+    }
+
+    // Without its file an interrupted upload cannot be retried, so it is
+    // dropped together with what the server already received.
+    const item = items.find((candidate) => candidate.id === id)
+    if (item?.status === "interrupted") {
+      removePendingUpload(item.pending.objectName)
+      if (item.pending.uploadUrl) {
+        discardResumableUpload(item.pending.uploadUrl).catch(() => undefined)
+      }
+      setItems((current) => current.filter((candidate) => candidate.id !== id))
+    } else if (item?.status === "queued" || item?.status === "duplicate") {
+      updateItem(id, { status: "canceled", progress: 0 })
+    }
+  }, [items, updateItem])
+
+  // Links the existing file instead.
+  const linkDuplicate = useCallback(async (id: string) => {
+    const item = items.find((candidate) => candidate.id === id)
+    if (item?.status !== "duplicate") return
+
+    const source = preferredDuplicate(item.duplicates, item.courseId)
+    updateItem(id, { status: "uploading", error: undefined })
+
+    try {
+      await linkFile({
+        source,
+        courseId: item.courseId,
+        folderId: item.folderId,
+        filename: item.file.name,
+      })
+      updateItem(id, { status: "done", progress: 1, linked: true })
+    } catch (error) {
+      updateItem(id, { status: "error", error: errorMessage(error) })
+    }
+  }, [items, linkFile, updateItem])
+
+  const uploadAnyway = useCallback((id: string) => {
+    updateItem(id, { status: "queued", ignoreDuplicates: true })
+  }, [updateItem])
+
+  const retry = useCallback((id: string) => {
+    updateItem(id, { status: "queued", error: undefined })
+  }, [updateItem])
+
+  const retryFailed = useCallback(() => {
+    setItems((current) =>
+      current.map((item) =>
+        item.courseId === courseId && item.status === "error"
+          ? { ...item, status: "queued", error: undefined }
+          : item
+      )
+    )
+  }, [courseId])
+
+  const clearFinished = useCallback(() => {
+    setItems((current) =>
+      current.filter((item) =>
+        item.courseId !== courseId || (item.status !== "done" && item.status !== "canceled")
+      )
+    )
+  }, [courseId])
+
+  return {
+    // Uploads into other courses keep running but are listed there.
+    items: items.filter((item) => item.courseId === courseId),
+    addFiles,
+    cancel,
+    retry,
+    retryFailed,
+    linkDuplicate,
+    uploadAnyway,
+    clearFinished,
+  }
+}
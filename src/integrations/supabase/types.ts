@@ -14,35 +14,88 @@ export type Database = {
   }
   public: {
     Tables: {
+      course_file_versions: {
+        Row: {
+          content_hash: string | null
+          created_at: string
+          file_id: string
+          file_path: string
+          file_size: number | null
+          id: string
+          mime_type: string | null
+          user_id: string
+        }
+        Insert: {
+          content_hash?: string | null
+          created_at?: string
+          file_id: string
+          file_path: string
+          file_size?: number | null
+          id?: string
+          mime_type?: string | null
+          user_id: string
+        }
+        Update: {
+          content_hash?: string | null
+          created_at?: string
+          file_id?: string
+          file_path?: string
+          file_size?: number | null
+          id?: string
+          mime_type?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_file_versions_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "course_files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       course_files: {
         Row: {
+          content_hash: string | null
           course_id: string
           created_at: string
+          deleted_at: string | null
           file_path: string
           file_size: number | null
           filename: string
+          folder_id: string | null
           id: string
           mime_type: string | null
+          uploaded_at: string
           user_id: string
         }
         Insert: {
+          content_hash?: string | null
           course_id: string
           created_at?: string
+          deleted_at?: string | null
           file_path: string
           file_size?: number | null
           filename: string
+          folder_id?: string | null
           id?: string
           mime_type?: string | null
+          uploaded_at?: string
           user_id: string
         }
         Update: {
+          content_hash?: string | null
           course_id?: string
           created_at?: string
+          deleted_at?: string | null
           file_path?: string
           file_size?: number | null
           filename?: string
+          folder_id?: string | null
           id?: string
           mime_type?: string | null
+          uploaded_at?: string
           user_id?: string
         }
         Relationships: [
@@ -53,6 +106,93 @@ export type Database = {
             referencedRelation: "courses"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "course_files_folder_id_fkey"
+            columns: ["folder_id", "course_id"]
+            isOneToOne: false
+            referencedRelation: "course_folders"
+            referencedColumns: ["id", "course_id"]
+          },
+        ]
+      }
+      course_folders: {
+        Row: {
+          course_id: string
+          created_at: string
+          id: string
+          name: string
+          parent_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          id?: string
+          name: string
+          parent_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          id?: string
+          name?: string
+          parent_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_folders_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_folders_parent_id_course_id_fkey"
+            columns: ["parent_id", "course_id"]
+            isOneToOne: false
+            referencedRelation: "course_folders"
+            referencedColumns: ["id", "course_id"]
+          },
+        ]
+      }
+      course_note_revisions: {
+        Row: {
+          content: string | null
+          created_at: string
+          id: string
+          note_id: string
+          title: string
+          user_id: string
+        }
+        Insert: {
+          content?: string | null
+          created_at?: string
+          id?: string
+          note_id: string
+          title: string
+          user_id: string
+        }
+        Update: {
+          content?: string | null
+          created_at?: string
+          id?: string
+          note_id?: string
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_note_revisions_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "course_notes"
+            referencedColumns: ["id"]
+          },
         ]
       }
       course_notes: {
@@ -60,6 +200,7 @@ export type Database = {
           content: string | null
           course_id: string
           created_at: string
+          deleted_at: string | null
           id: string
           title: string
           updated_at: string
@@ -69,6 +210,7 @@ export type Database = {
           content?: string | null
           course_id: string
           created_at?: string
+          deleted_at?: string | null
           id?: string
           title: string
           updated_at?: string
@@ -78,6 +220,7 @@ export type Database = {
           content?: string | null
           course_id?: string
           created_at?: string
+          deleted_at?: string | null
           id?: string
           title?: string
           updated_at?: string
@@ -97,6 +240,7 @@ export type Database = {
         Row: {
           color: string | null
           created_at: string
+          deleted_at: string | null
           description: string | null
           id: string
           status: string | null
@@ -107,6 +251,7 @@ export type Database = {
         Insert: {
           color?: string | null
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
           id?: string
           status?: string | null
@@ -117,6 +262,7 @@ export type Database = {
         Update: {
           color?: string | null
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
           id?: string
           status?: string | null
@@ -126,12 +272,106 @@ export type Database = {
         }
         Relationships: []
       }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          default_course_color: string | null
+          display_name: string | null
+          id: string
+          preferred_language: string | null
+          theme: string | null
+          updated_at: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          default_course_color?: string | null
+          display_name?: string | null
+          id: string
+          preferred_language?: string | null
+          theme?: string | null
+          updated_at?: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          default_course_color?: string | null
+          display_name?: string | null
+          id?: string
+          preferred_language?: string | null
+          theme?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      has_required_aal: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      referenced_course_file_paths: {
+        Args: {
+          deleted_course_ids?: string[]
+          deleted_file_ids?: string[]
+          paths: string[]
+        }
+        Returns: string[]
+      }
+      restore_course_file_version: {
+        Args: { version_id: string }
+        Returns: {
+          content_hash: string | null
+          course_id: string
+          created_at: string
+          deleted_at: string | null
+          file_path: string
+          file_size: number | null
+          filename: string
+          folder_id: string | null
+          id: string
+          mime_type: string | null
+          uploaded_at: string
+          user_id: string
+        }
+      }
+      search_everything: {
+        Args: { kinds?: string[]; max_results?: number; search_query: string }
+        Returns: {
+          color: string
+          course_id: string
+          id: string
+          kind: string
+          rank: number
+          snippet: string
+          title: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,45 @@
+export type DiffLineType = "added" | "removed" | "unchanged"
+
+export interface DiffLine {
+  type: DiffLineType
+  value: string
+}
+
+// Line-based diff built on the longest common subsequence of both texts.
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n")
+  const b = after.split("\n")
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  )
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "unchanged", value: a[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: "removed", value: a[i] })
+      i++
+    } else {
+      lines.push({ type: "added", value: b[j] })
+      j++
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", value: a[i++] })
+  while (j < b.length) lines.push({ type: "added", value: b[j++] })
+
+  return lines
+}
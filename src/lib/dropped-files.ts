@@ -0,0 +1,60 @@
+export interface PickedFile {
+  file: File
+  // Path inside the dropped or picked folder, or the file name.
+  path: string
+}
+
+function readEntries(reader: FileSystemDirectoryReader) {
+  return new Promise<FileSystemEntry[]>((resolve, reject) =>
+    reader.readEntries(resolve, reject)
+  )
+}
+
+function readFile(entry: FileSystemFileEntry) {
+  return new Promise<File>((resolve, reject) => entry.file(resolve, reject))
+}
+
+async function collectEntry(entry: FileSystemEntry, files: PickedFile[]) {
+  if (entry.isFile) {
+    const file = await readFile(entry as FileSystemFileEntry)
+    files.push({ file, path: entry.fullPath.replace(/^\//, "") })
+    return
+  }
+
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader()
+    // Entries come in batches until an empty one.
+    for (;;) {
+      const entries = await readEntries(reader)
+      if (entries.length === 0) break
+      for (const child of entries) {
+        await collectEntry(child, files)
+      }
+    }
+  }
+}
+
+// Dropped folders are walked recursively; browsers without the entries API
+// only give the top-level files.
+export async function getDroppedFiles(dataTransfer: DataTransfer) {
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry?.())
+
+  if (entries.length === 0 || entries.some((entry) => !entry)) {
+    return getPickedFiles(dataTransfer.files)
+  }
+
+  const files: PickedFile[] = []
+  for (const entry of entries) {
+    await collectEntry(entry, files)
+  }
+  return files
+}
+
+export function getPickedFiles(fileList: FileList | null): PickedFile[] {
+  return Array.from(fileList ?? []).map((file) => ({
+    file,
+    path: file.webkitRelativePath || file.name,
+  }))
+}
@@ -0,0 +1,27 @@
+// Files and folders dragged within a course, told apart from files dragged
+// in from the desktop by their own data type.
+export interface DraggedItem {
+  kind: "file" | "folder"
+  id: string
+}
+
+const DRAG_TYPE = "application/x-studidash-item"
+
+export function setDraggedItem(dataTransfer: DataTransfer, item: DraggedItem) {
+  dataTransfer.setData(DRAG_TYPE, JSON.stringify(item))
+  dataTransfer.effectAllowed = "move"
+}
+
+// The dragged data can only be read on drop; while dragging, only its type
+// is known.
+export function isDraggingItem(dataTransfer: DataTransfer) {
+  return dataTransfer.types.includes(DRAG_TYPE)
+}
+
+export function getDraggedItem(dataTransfer: DataTransfer): DraggedItem | undefined {
+  try {
+    return JSON.parse(dataTransfer.getData(DRAG_TYPE))
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,20 @@
+import { createSHA256 } from "hash-wasm"
+
+// Recordings can weigh gigabytes: they are read a slice at a time instead
+// of all at once, which Web Crypto would require.
+const SLICE_SIZE = 8 * 1024 * 1024
+
+// Hex SHA-256 of the content of the file.
+export async function hashFile(file: Blob, signal?: AbortSignal) {
+  const hasher = await createSHA256()
+  hasher.init()
+
+  for (let offset = 0; offset < file.size; offset += SLICE_SIZE) {
+    signal?.throwIfAborted()
+    const slice = await file.slice(offset, offset + SLICE_SIZE).arrayBuffer()
+    hasher.update(new Uint8Array(slice))
+  }
+
+  signal?.throwIfAborted()
+  return hasher.digest("hex")
+}
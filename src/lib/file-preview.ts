@@ -0,0 +1,69 @@
+export type PreviewKind = "pdf" | "image" | "audio" | "video" | "markdown" | "code" | "text"
+
+// Source files are often uploaded without a MIME type, or as
+// application/octet-stream, so the extension decides for them. Only
+// languages bundled in highlight.js/lib/common are listed.
+const CODE_LANGUAGES: Record<string, string> = {
+  c: "c",
+  h: "c",
+  cpp: "cpp",
+  hpp: "cpp",
+  cs: "csharp",
+  css: "css",
+  go: "go",
+  html: "xml",
+  java: "java",
+  js: "javascript",
+  jsx: "javascript",
+  json: "json",
+  kt: "kotlin",
+  php: "php",
+  py: "python",
+  r: "r",
+  rb: "ruby",
+  rs: "rust",
+  sh: "bash",
+  sql: "sql",
+  swift: "swift",
+  ts: "typescript",
+  tsx: "typescript",
+  xml: "xml",
+  yaml: "yaml",
+  yml: "yaml",
+}
+
+const TEXT_EXTENSIONS = new Set(["txt", "csv", "log", "ini", "cfg", "conf", "tex"])
+
+// Larger text files make highlighting freeze the page.
+export const MAX_TEXT_PREVIEW_SIZE = 1024 * 1024
+
+function extension(filename: string) {
+  const dot = filename.lastIndexOf(".")
+  return dot > -1 ? filename.slice(dot + 1).toLowerCase() : ""
+}
+
+export function getCodeLanguage(filename: string) {
+  return CODE_LANGUAGES[extension(filename)]
+}
+
+// Returns undefined for files the browser cannot show, which can only be
+// downloaded.
+export function getPreviewKind(file: {
+  filename: string
+  mime_type: string | null
+  file_size: number | null
+}): PreviewKind | undefined {
+  const mimeType = file.mime_type || ""
+  const ext = extension(file.filename)
+
+  if (mimeType === "application/pdf" || ext === "pdf") return "pdf"
+  if (mimeType.startsWith("image/")) return "image"
+  if (mimeType.startsWith("audio/")) return "audio"
+  if (mimeType.startsWith("video/")) return "video"
+
+  if ((file.file_size || 0) > MAX_TEXT_PREVIEW_SIZE) return undefined
+  if (mimeType === "text/markdown" || ext === "md" || ext === "markdown") return "markdown"
+  if (getCodeLanguage(file.filename)) return "code"
+  if (mimeType.startsWith("text/") || TEXT_EXTENSIONS.has(ext)) return "text"
+  return undefined
+}
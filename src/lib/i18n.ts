@@ -0,0 +1,90 @@
+import { format } from "date-fns"
+import { enUS, fr as frLocale } from "date-fns/locale"
+
+import fr, { type MessageKey, type Messages } from "@/locales/fr"
+import en from "@/locales/en"
+
+export type Locale = "fr" | "en"
+
+export type { MessageKey }
+
+export type MessageParams = Record<string, string | number>
+
+export const LOCALES: Locale[] = ["fr", "en"]
+
+export const DEFAULT_LOCALE: Locale = "fr"
+
+const catalogs: Record<Locale, Messages> = { fr, en }
+
+const dateLocales = { fr: frLocale, en: enUS }
+
+const sizeUnits: Record<Locale, string[]> = {
+  fr: ["o", "Ko", "Mo", "Go"],
+  en: ["B", "KB", "MB", "GB"],
+}
+
+const STORAGE_KEY = "studidash:locale"
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale)
+}
+
+// The locale picked on this device, used until the profile is loaded and
+// on pages shown before signing in.
+export function getStoredLocale(): Locale {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (isLocale(stored)) return stored
+  } catch {
+    // Storage can be unavailable, e.g. in private browsing.
+  }
+
+  const browser = navigator.language.slice(0, 2)
+  return isLocale(browser) ? browser : DEFAULT_LOCALE
+}
+
+export function storeLocale(locale: Locale) {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale)
+  } catch {
+    // The choice still applies to this session.
+  }
+}
+
+// Plural messages are picked with the `count` parameter, following the
+// locale's rules (French treats 0 as singular, English does not).
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}) {
+  const message = catalogs[locale][key] ?? catalogs[DEFAULT_LOCALE][key]
+  // Keys built at runtime, such as unknown statuses, show up as is.
+  if (message === undefined) return key
+
+  const template = typeof message === "string"
+    ? message
+    : message[new Intl.PluralRules(locale).select(Number(params.count)) === "one" ? "one" : "other"]
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name) =>
+    name in params ? String(params[name]) : placeholder
+  )
+}
+
+// For code outside of React, such as toasts of background work. The stored
+// locale is kept in step with the one shown.
+export function translateStored(key: MessageKey, params?: MessageParams) {
+  return translate(getStoredLocale(), key, params)
+}
+
+// Patterns are date-fns tokens: "PP" is the localized date, "PPp" adds the time.
+export function formatDate(locale: Locale, date: string | number | Date, pattern = "PP") {
+  return format(new Date(date), pattern, { locale: dateLocales[locale] })
+}
+
+export function formatFileSize(locale: Locale, bytes: number) {
+  const units = sizeUnits[locale]
+  const i = bytes > 0
+    ? Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1)
+    : 0
+  const value = new Intl.NumberFormat(locale, { maximumFractionDigits: 2 })
+    .format(bytes / Math.pow(1024, i))
+
+  return `${value} ${units[i]}`
+}
@@ -0,0 +1,50 @@
+import { unified } from "unified"
+import remarkParse from "remark-parse"
+import remarkGfm from "remark-gfm"
+import remarkMath from "remark-math"
+
+interface MarkdownNode {
+  type: string
+  value?: string
+  alt?: string
+  children?: MarkdownNode[]
+}
+
+const parser = unified().use(remarkParse).use(remarkGfm).use(remarkMath)
+
+const BLOCK_TYPES = new Set([
+  "list",
+  "listItem",
+  "blockquote",
+  "table",
+  "tableRow",
+])
+
+function toText(node: MarkdownNode): string {
+  if (node.type === "html") return ""
+  // Formulas and inline code keep their delimiters so they still read as
+  // such in a plain-text preview.
+  if (node.type === "math" || node.type === "inlineMath") return `$${node.value}$`
+  if (node.type === "inlineCode") return `\`${node.value}\``
+  if (typeof node.value === "string") return node.value
+  if (node.type === "image") return node.alt || ""
+  if (node.type === "break") return " "
+
+  const separator = BLOCK_TYPES.has(node.type) ? " " : ""
+  return (node.children || []).map(toText).join(separator)
+}
+
+// Flattens Markdown into a single line of plain text: block elements are
+// joined with a space and raw HTML is dropped. The result is not Markdown
+// any more and is meant to be rendered as text.
+export function markdownToPlainText(content: string) {
+  const tree = parser.parse(content) as MarkdownNode
+  const blocks = (tree.children || []).map(toText)
+  return blocks.join(" ").replace(/\s+/g, " ").trim()
+}
+
+export function excerpt(content: string, maxLength = 150) {
+  const text = markdownToPlainText(content)
+  if (text.length <= maxLength) return text
+  return text.slice(0, maxLength).trimEnd() + "..."
+}
@@ -0,0 +1,221 @@
+import type { Tables } from "@/integrations/supabase/types"
+
+// Local copy of the user's data, so the app can be used without a network.
+export type MirroredTable = "courses" | "course_notes" | "course_files" | "course_folders"
+
+export type MirroredRow<T extends MirroredTable> = Tables<T>
+
+export interface QueuedWrite {
+  seq?: number
+  table: "course_notes"
+  id: string
+  // Inserts carry the whole row, updates only the changed columns.
+  kind: "insert" | "update"
+  values: Record<string, unknown>
+  // Server version the first offline edit was based on.
+  expectedUpdatedAt: string | null
+  // Time of the latest offline edit.
+  queuedAt: string
+}
+
+const DB_NAME = "studidash-offline"
+const DB_VERSION = 3
+const MIRRORED_TABLES: MirroredTable[] = [
+  "courses",
+  "course_notes",
+  "course_files",
+  "course_folders",
+]
+const QUEUE_STORE = "write_queue"
+// Writes the server rejected, kept on the device so they are not lost.
+const FAILED_STORE = "failed_writes"
+
+let database: Promise<IDBDatabase> | null = null
+
+function openDatabase() {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      // Stores added by later versions are created on top of existing ones.
+      request.onupgradeneeded = () => {
+        const db = request.result
+        for (const table of MIRRORED_TABLES) {
+          if (!db.objectStoreNames.contains(table)) {
+            db.createObjectStore(table, { keyPath: "id" })
+          }
+        }
+        for (const storeName of [QUEUE_STORE, FAILED_STORE]) {
+          if (!db.objectStoreNames.contains(storeName)) {
+            db.createObjectStore(storeName, { keyPath: "seq", autoIncrement: true })
+          }
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+  return database
+}
+
+function result<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Runs `run` in a transaction and resolves once it is committed.
+async function transact<T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  run: (transaction: IDBTransaction) => Promise<T> | T
+) {
+  const db = await openDatabase()
+  const transaction = db.transaction(storeNames, mode)
+  const committed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+  const value = await run(transaction)
+  await committed
+  return value
+}
+
+export function getMirroredRows<T extends MirroredTable>(table: T) {
+  return transact([table], "readonly", (transaction) =>
+    result<MirroredRow<T>[]>(transaction.objectStore(table).getAll())
+  )
+}
+
+export function getMirroredRow<T extends MirroredTable>(table: T, id: string) {
+  return transact([table], "readonly", (transaction) =>
+    result<MirroredRow<T> | undefined>(transaction.objectStore(table).get(id))
+  )
+}
+
+export function putMirroredRow<T extends MirroredTable>(
+  table: T,
+  row: MirroredRow<T>
+) {
+  return transact([table], "readwrite", (transaction) => {
+    transaction.objectStore(table).put(row)
+  })
+}
+
+// Merges changes into a mirrored row, keeping the joined columns it has.
+export function patchMirroredRow<T extends MirroredTable>(
+  table: T,
+  id: string,
+  changes: Partial<MirroredRow<T>>
+) {
+  return transact([table], "readwrite", async (transaction) => {
+    const store = transaction.objectStore(table)
+    const row = await result<MirroredRow<T> | undefined>(store.get(id))
+    if (row) {
+      store.put({ ...row, ...changes })
+    }
+  })
+}
+
+// Stores freshly fetched rows. Mirrored rows matching `replaces` are the ones
+// the fetch covered: those it did not return were deleted on the server and
+// are dropped, unless an offline write for them is still queued.
+export function mirrorRows<T extends MirroredTable>(
+  table: T,
+  rows: MirroredRow<T>[],
+  replaces?: (row: MirroredRow<T>) => boolean
+) {
+  return transact([table, QUEUE_STORE], "readwrite", async (transaction) => {
+    const store = transaction.objectStore(table)
+
+    if (replaces) {
+      const queued = await result<QueuedWrite[]>(
+        transaction.objectStore(QUEUE_STORE).getAll()
+      )
+      const pendingIds = new Set(queued.map((write) => write.id))
+      const fetchedIds = new Set(rows.map((row) => row.id))
+      const mirrored = await result<MirroredRow<T>[]>(store.getAll())
+
+      for (const row of mirrored) {
+        if (replaces(row) && !fetchedIds.has(row.id) && !pendingIds.has(row.id)) {
+          store.delete(row.id)
+        }
+      }
+    }
+
+    for (const row of rows) {
+      store.put(row)
+    }
+  })
+}
+
+export function getQueuedWrites() {
+  return transact([QUEUE_STORE], "readonly", (transaction) =>
+    result<QueuedWrite[]>(transaction.objectStore(QUEUE_STORE).getAll())
+  )
+}
+
+// Folds the write into the one already queued for the same row, so a row is
+// replayed once with its latest values.
+export function queueWrite(write: QueuedWrite) {
+  return transact([QUEUE_STORE], "readwrite", async (transaction) => {
+    const store = transaction.objectStore(QUEUE_STORE)
+    const queued = await result<QueuedWrite[]>(store.getAll())
+    const existing = queued.find(
+      (entry) => entry.table === write.table && entry.id === write.id
+    )
+
+    if (existing) {
+      store.put({
+        ...existing,
+        values: { ...existing.values, ...write.values },
+        queuedAt: write.queuedAt,
+      })
+    } else {
+      store.add(write)
+    }
+  })
+}
+
+// Removes a replayed write, unless an edit was folded into it while it was
+// being sent. That edit stays queued, based on the server version the
+// replay produced when there is one.
+export function removeQueuedWrite(write: QueuedWrite, updatedAt: string | null) {
+  return transact([QUEUE_STORE], "readwrite", async (transaction) => {
+    const store = transaction.objectStore(QUEUE_STORE)
+    const current = await result<QueuedWrite | undefined>(store.get(write.seq))
+
+    if (!current || current.queuedAt === write.queuedAt) {
+      store.delete(write.seq)
+    } else {
+      store.put({
+        ...current,
+        kind: "update",
+        expectedUpdatedAt: updatedAt ?? current.expectedUpdatedAt,
+      })
+    }
+  })
+}
+
+// Moves a write the server rejected out of the queue, with any edit folded
+// into it meanwhile, so it no longer blocks the queue but is not lost.
+export function parkQueuedWrite(write: QueuedWrite) {
+  return transact([QUEUE_STORE, FAILED_STORE], "readwrite", async (transaction) => {
+    const queue = transaction.objectStore(QUEUE_STORE)
+    const current = await result<QueuedWrite | undefined>(queue.get(write.seq))
+    const { seq, ...parked } = current ?? write
+
+    transaction.objectStore(FAILED_STORE).add(parked)
+    queue.delete(write.seq)
+  })
+}
+
+export function clearOfflineData() {
+  const storeNames = [...MIRRORED_TABLES, QUEUE_STORE, FAILED_STORE]
+  return transact(storeNames, "readwrite", (transaction) => {
+    for (const storeName of storeNames) {
+      transaction.objectStore(storeName).clear()
+    }
+  })
+}
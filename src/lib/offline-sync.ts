@@ -0,0 +1,298 @@
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "@/hooks/use-toast"
+import { translateStored } from "@/lib/i18n"
+import {
+  getMirroredRow,
+  getMirroredRows,
+  getQueuedWrites,
+  mirrorRows,
+  parkQueuedWrite,
+  removeQueuedWrite,
+  type MirroredRow,
+  type MirroredTable,
+  type QueuedWrite,
+} from "@/lib/offline-db"
+
+export type SyncStatus = "online" | "offline" | "syncing"
+
+export interface SyncState {
+  status: SyncStatus
+  // Offline writes not yet sent to the server.
+  pending: number
+}
+
+const listeners: Array<() => void> = []
+
+let syncState: SyncState = {
+  status: navigator.onLine ? "online" : "offline",
+  pending: 0,
+}
+
+function setSyncState(changes: Partial<SyncState>) {
+  syncState = { ...syncState, ...changes }
+  listeners.forEach((listener) => listener())
+}
+
+window.addEventListener("online", () => setSyncState({ status: "online" }))
+window.addEventListener("offline", () => setSyncState({ status: "offline" }))
+
+export function getSyncState() {
+  return syncState
+}
+
+export function subscribeSyncState(listener: () => void) {
+  listeners.push(listener)
+  return () => {
+    const index = listeners.indexOf(listener)
+    if (index > -1) {
+      listeners.splice(index, 1)
+    }
+  }
+}
+
+export function isOffline() {
+  return !navigator.onLine
+}
+
+// Requests that never reached the server, as opposed to errors it returned.
+function isNetworkError(error: unknown) {
+  const message = error instanceof Error ? error.message : String((error as { message?: string })?.message)
+  return error instanceof TypeError || /failed to fetch|network|load failed/i.test(message)
+}
+
+export async function refreshPendingCount() {
+  const queued = await getQueuedWrites()
+  setSyncState({ pending: queued.length })
+  return queued.length
+}
+
+export async function hasPendingWrites() {
+  try {
+    return (await refreshPendingCount()) > 0
+  } catch {
+    return false
+  }
+}
+
+interface ReadThroughOptions<T extends MirroredTable> {
+  // Mirrored rows the query covers, used to answer it offline and to drop
+  // rows deleted on the server.
+  match: (row: MirroredRow<T>) => boolean
+  // Order of the rows answered from the mirror, as the server would sort them.
+  compare?: (a: MirroredRow<T>, b: MirroredRow<T>) => number
+}
+
+// Fetches from the server and mirrors the result, or answers from the mirror
+// while offline.
+export async function readThrough<T extends MirroredTable, R extends MirroredRow<T>>(
+  table: T,
+  fetchRows: () => Promise<R[]>,
+  { match, compare }: ReadThroughOptions<T>
+): Promise<R[]> {
+  const readMirror = async () =>
+    (await getMirroredRows(table)).filter(match).sort(compare) as R[]
+
+  if (isOffline()) {
+    return readMirror()
+  }
+
+  // Server data must include the offline writes before it replaces them.
+  await flushWrites()
+
+  try {
+    const rows = await fetchRows()
+    // The app keeps working without a mirror, e.g. in private browsing.
+    await mirrorRows(table, rows, match).catch(() => undefined)
+    return rows
+  } catch (error) {
+    if (!isNetworkError(error)) throw error
+    return readMirror()
+  }
+}
+
+export interface ReplayResult {
+  synced: number
+  conflicts: number
+}
+
+interface ReplayedWrite {
+  outcome: "synced" | "conflict"
+  // Version of the row on the server once the write was sent, when known.
+  updatedAt: string | null
+}
+
+// Conflicts are settled on updated_at: the most recent edit becomes the note,
+// and an offline edit that lost is kept as a copy so nothing is discarded.
+async function replayWrite(write: QueuedWrite): Promise<ReplayedWrite> {
+  if (write.kind === "insert") {
+    const { data: inserted, error } = await supabase
+      .from(write.table)
+      .insert({ ...write.values, id: write.id } as MirroredRow<"course_notes">)
+      .select("updated_at")
+      .maybeSingle()
+
+    // Already inserted by a replay that was interrupted before completing.
+    if (error && error.code !== "23505") throw error
+    return { outcome: "synced", updatedAt: inserted?.updated_at ?? null }
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from(write.table)
+    .update(write.values)
+    .eq("id", write.id)
+    .eq("updated_at", write.expectedUpdatedAt)
+    .select("updated_at")
+    .maybeSingle()
+
+  if (updateError) throw updateError
+  if (updated) return { outcome: "synced", updatedAt: updated.updated_at }
+
+  const { data: server, error: fetchError } = await supabase
+    .from(write.table)
+    .select("*")
+    .eq("id", write.id)
+    .maybeSingle()
+
+  if (fetchError) throw fetchError
+
+  if (server && !server.deleted_at && Date.parse(server.updated_at) < Date.parse(write.queuedAt)) {
+    const { data: overwritten, error } = await supabase
+      .from(write.table)
+      .update(write.values)
+      .eq("id", write.id)
+      .select("updated_at")
+      .maybeSingle()
+
+    if (error) throw error
+    return { outcome: "synced", updatedAt: overwritten?.updated_at ?? null }
+  }
+
+  if (server) {
+    await insertOfflineCopy(write, server)
+  }
+  return { outcome: "conflict", updatedAt: null }
+}
+
+// Saves the offline edit as a new note next to the one it was made on.
+async function insertOfflineCopy(
+  write: QueuedWrite,
+  note: Pick<MirroredRow<"course_notes">, "course_id" | "user_id" | "title" | "content">
+) {
+  const { error } = await supabase.from(write.table).insert({
+    course_id: note.course_id,
+    user_id: note.user_id,
+    title: translateStored("sync.offlineCopy", {
+      title: (write.values.title as string) ?? note.title,
+    }),
+    content: (write.values.content as string) ?? note.content,
+  })
+
+  if (error) throw error
+}
+
+// A write the server rejects would block the queue for good. It is kept as a
+// copy when the server takes one, and otherwise parked on the device.
+async function settleRejectedWrite(write: QueuedWrite): Promise<"conflict" | "parked"> {
+  const note = write.kind === "insert"
+    ? (write.values as MirroredRow<"course_notes">)
+    : await getMirroredRow(write.table, write.id).catch(() => undefined)
+
+  if (note) {
+    try {
+      await insertOfflineCopy(write, note)
+      return "conflict"
+    } catch (error) {
+      if (isNetworkError(error)) throw error
+    }
+  }
+
+  await parkQueuedWrite(write)
+  return "parked"
+}
+
+let flushing: Promise<ReplayResult> | null = null
+
+// Sends the queued offline writes in order, including those queued while
+// the replay runs. Concurrent calls share the same replay; it stops at the
+// first network error and resumes on the next call.
+export function flushWrites(): Promise<ReplayResult> {
+  if (!flushing) {
+    flushing = replayQueue().finally(() => {
+      flushing = null
+    })
+  }
+  return flushing
+}
+
+async function replayQueue(): Promise<ReplayResult> {
+  const replay: ReplayResult = { synced: 0, conflicts: 0 }
+
+  let queued: QueuedWrite[]
+  try {
+    queued = await getQueuedWrites()
+  } catch {
+    return replay
+  }
+  if (queued.length === 0 || isOffline()) {
+    setSyncState({ pending: queued.length })
+    return replay
+  }
+
+  setSyncState({ status: "syncing", pending: queued.length })
+  let failed = 0
+
+  try {
+    let disconnected = false
+    while (queued.length > 0 && !disconnected) {
+      for (const write of queued) {
+        let updatedAt: string | null = null
+        try {
+          const replayed = await replayWrite(write)
+          replay[replayed.outcome === "synced" ? "synced" : "conflicts"] += 1
+          updatedAt = replayed.updatedAt
+        } catch (error) {
+          if (isNetworkError(error)) {
+            disconnected = true
+            break
+          }
+          try {
+            if ((await settleRejectedWrite(write)) === "parked") {
+              failed += 1
+              setSyncState({ pending: syncState.pending - 1 })
+              continue
+            }
+            replay.conflicts += 1
+          } catch {
+            // Settled on the next replay.
+            disconnected = true
+            break
+          }
+        }
+        await removeQueuedWrite(write, updatedAt)
+        setSyncState({ pending: syncState.pending - 1 })
+      }
+
+      queued = await getQueuedWrites()
+      setSyncState({ pending: queued.length })
+    }
+  } finally {
+    setSyncState({ status: isOffline() ? "offline" : "online" })
+  }
+
+  if (failed > 0) {
+    toast({
+      variant: "destructive",
+      title: translateStored("common.error"),
+      description: translateStored("sync.replayError"),
+    })
+  }
+
+  if (replay.conflicts > 0) {
+    toast({
+      title: translateStored("sync.conflictTitle"),
+      description: translateStored("sync.conflictDescription", { count: replay.conflicts }),
+    })
+  }
+
+  return replay
+}
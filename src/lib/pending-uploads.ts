@@ -0,0 +1,68 @@
+// Resumable uploads that have not been recorded in course_files yet, kept
+// across reloads so they can be picked up where they stopped.
+export interface PendingUpload {
+  // Storage path the file is uploaded to.
+  objectName: string
+  courseId: string
+  userId: string
+  // Folder of the course the file goes into, null for the root.
+  folderId?: string | null
+  // File the upload becomes the new version of, unset for a new file.
+  fileId?: string
+  filename: string
+  size: number
+  type: string
+  lastModified: number
+  // SHA-256 of the content, once computed.
+  contentHash?: string
+  // Resumable upload URL, once the server has created it.
+  uploadUrl?: string
+  // The object is complete but its row has not been inserted.
+  uploaded?: boolean
+}
+
+const PENDING_UPLOADS_KEY = "studidash:pending-uploads"
+
+export function getPendingUploads(): PendingUpload[] {
+  try {
+    const stored = localStorage.getItem(PENDING_UPLOADS_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch {
+    return []
+  }
+}
+
+export function getPendingUpload(objectName: string) {
+  return getPendingUploads().find((upload) => upload.objectName === objectName)
+}
+
+function storePendingUploads(uploads: PendingUpload[]) {
+  try {
+    localStorage.setItem(PENDING_UPLOADS_KEY, JSON.stringify(uploads))
+  } catch {
+    // Without storage the upload still completes, it just cannot resume.
+  }
+}
+
+export function savePendingUpload(upload: PendingUpload) {
+  storePendingUploads([
+    ...getPendingUploads().filter((pending) => pending.objectName !== upload.objectName),
+    upload,
+  ])
+}
+
+export function removePendingUpload(objectName: string) {
+  storePendingUploads(
+    getPendingUploads().filter((pending) => pending.objectName !== objectName)
+  )
+}
+
+// The browser cannot reopen a file by itself: the user picks it again and
+// it must be the very file that was being uploaded.
+export function isSameFile(upload: PendingUpload, file: File) {
+  return (
+    upload.filename === file.name &&
+    upload.size === file.size &&
+    upload.lastModified === file.lastModified
+  )
+}
@@ -0,0 +1,29 @@
+import { registerSW } from "virtual:pwa-register"
+
+import { ToastAction } from "@/components/ui/toast"
+import { toast } from "@/hooks/use-toast"
+import { translateStored } from "@/lib/i18n"
+
+export function registerServiceWorker() {
+  const updateServiceWorker = registerSW({
+    immediate: true,
+    onNeedRefresh() {
+      toast({
+        title: translateStored("pwa.updateTitle"),
+        description: translateStored("pwa.updateDescription"),
+        duration: Infinity,
+        action: (
+          <ToastAction altText={translateStored("pwa.reload")} onClick={() => updateServiceWorker(true)}>
+            {translateStored("pwa.reload")}
+          </ToastAction>
+        ),
+      })
+    },
+    onOfflineReady() {
+      toast({
+        title: translateStored("pwa.offlineReadyTitle"),
+        description: translateStored("pwa.offlineReadyDescription"),
+      })
+    },
+  })
+}
@@ -0,0 +1,65 @@
+import type { QueryClient, QueryKey } from "@tanstack/react-query"
+
+type Row = { id: string }
+
+export type QuerySnapshot = Array<[QueryKey, unknown]>
+
+// Cancels in-flight fetches under queryKey, so they cannot overwrite an
+// optimistic update, and returns what is cached there for rolling back.
+export async function snapshotQueries(
+  queryClient: QueryClient,
+  queryKey: QueryKey
+): Promise<QuerySnapshot> {
+  await queryClient.cancelQueries({ queryKey })
+  return queryClient.getQueriesData({ queryKey })
+}
+
+export function restoreQueries(
+  queryClient: QueryClient,
+  snapshot: QuerySnapshot | undefined
+) {
+  snapshot?.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data))
+}
+
+// Updates a row wherever it is cached under queryKey, in lists and single
+// entries alike. Joined columns of the cached row are kept.
+export function patchCachedRow<T extends Row>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  id: string,
+  changes: Partial<T>
+) {
+  queryClient.setQueriesData<unknown>({ queryKey }, (data) => {
+    if (Array.isArray(data)) {
+      return data.map((row: T) => (row.id === id ? { ...row, ...changes } : row))
+    }
+    if (data && (data as Row).id === id) {
+      return { ...(data as T), ...changes }
+    }
+    return data
+  })
+}
+
+// Removes a row from every list cached under queryKey.
+export function removeCachedRow(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  id: string
+) {
+  queryClient.setQueriesData<unknown>({ queryKey }, (data) =>
+    Array.isArray(data) ? data.filter((row: Row) => row.id !== id) : data
+  )
+}
+
+// Whether a row is cached under queryKey, in a list or as a single entry.
+export function isCachedRow(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  id: string
+) {
+  return queryClient.getQueriesData<unknown>({ queryKey }).some(([, data]) =>
+    Array.isArray(data)
+      ? data.some((row: Row) => row.id === id)
+      : (data as Row | undefined)?.id === id
+  )
+}
@@ -0,0 +1,40 @@
+import { QueryCache, QueryClient } from "@tanstack/react-query"
+
+import { toast } from "@/hooks/use-toast"
+import { translateStored, type MessageKey } from "@/lib/i18n"
+
+declare module "@tanstack/react-query" {
+  interface Register {
+    queryMeta: {
+      // Shown in a toast when the query fails.
+      errorMessage?: MessageKey
+    }
+  }
+}
+
+export const queryClient = new QueryClient({
+  queryCache: new QueryCache({
+    onError: (error, query) => {
+      if (query.meta?.errorMessage) {
+        toast({
+          variant: "destructive",
+          title: translateStored("common.error"),
+          description: translateStored(query.meta.errorMessage),
+        })
+      }
+    },
+  }),
+  defaultOptions: {
+    queries: {
+      // Pages share cached data instead of refetching on every navigation.
+      staleTime: 60 * 1000,
+      // Mirrored queries answer from IndexedDB while offline, so they must
+      // run instead of waiting for the network.
+      networkMode: "offlineFirst",
+    },
+    mutations: {
+      // Note writes are queued while offline; other writes fail right away.
+      networkMode: "always",
+    },
+  },
+})
@@ -0,0 +1,31 @@
+export type RecentItemKind = "course" | "note"
+
+export interface RecentItem {
+  kind: RecentItemKind
+  id: string
+  title: string
+  href: string
+  color?: string | null
+}
+
+const RECENT_ITEMS_KEY = "studidash:recent-items"
+const MAX_RECENT_ITEMS = 8
+
+export function getRecentItems(): RecentItem[] {
+  try {
+    const stored = localStorage.getItem(RECENT_ITEMS_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch {
+    return []
+  }
+}
+
+export function addRecentItem(item: RecentItem) {
+  const items = getRecentItems().filter(
+    (recent) => !(recent.kind === item.kind && recent.id === item.id)
+  )
+  localStorage.setItem(
+    RECENT_ITEMS_KEY,
+    JSON.stringify([item, ...items].slice(0, MAX_RECENT_ITEMS))
+  )
+}
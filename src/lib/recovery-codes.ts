@@ -0,0 +1,26 @@
+// Recovery codes avoid characters that are easily confused when copied by hand.
+const ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789"
+const CODE_LENGTH = 10
+
+export const RECOVERY_CODE_COUNT = 10
+
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH))
+    const chars = Array.from(bytes, (byte) => ALPHABET[byte % ALPHABET.length])
+    return `${chars.slice(0, 5).join("")}-${chars.slice(5).join("")}`
+  })
+}
+
+// Must stay in sync with the mfa-recovery edge function, which hashes the
+// code typed by the user the same way before looking it up.
+export async function hashRecoveryCode(code: string) {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, "")
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(normalized)
+  )
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("")
+}
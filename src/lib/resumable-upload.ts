@@ -0,0 +1,110 @@
+import { DetailedError, Upload } from "tus-js-client"
+
+import { supabase } from "@/integrations/supabase/client"
+import type { UploadOptions } from "@/lib/storage-upload"
+
+// Smaller files go through a single request, which is faster to set up.
+export const RESUMABLE_UPLOAD_THRESHOLD = 20 * 1024 * 1024
+
+// Supabase Storage only accepts 6 MB chunks for resumable uploads.
+const CHUNK_SIZE = 6 * 1024 * 1024
+
+const ENDPOINT = `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`
+
+interface ResumableUploadOptions extends UploadOptions {
+  // Upload URL of an interrupted upload of the same file.
+  uploadUrl?: string
+  // Called once the server has created the upload, to resume it later.
+  onUploadUrl?: (uploadUrl: string) => void
+}
+
+// The session is read before every request: uploading a recording can take
+// longer than an access token lives.
+async function authorize(request: { setHeader: (name: string, value: string) => void }) {
+  const { data } = await supabase.auth.getSession()
+  request.setHeader("authorization", `Bearer ${data.session?.access_token}`)
+}
+
+function uploadError(error: Error) {
+  if (error instanceof DetailedError && error.originalResponse) {
+    try {
+      const body = JSON.parse(error.originalResponse.getBody())
+      return new Error(body.message || body.error || error.message)
+    } catch {
+      return new Error(error.originalResponse.getBody() || error.message)
+    }
+  }
+  return error
+}
+
+function responseStatus(error: Error) {
+  return error instanceof DetailedError ? error.originalResponse?.getStatus() : undefined
+}
+
+// Sends the file with the TUS protocol in chunks; failed chunks are retried
+// and an interrupted upload continues from the last chunk the server got.
+export function uploadResumable(
+  bucket: string,
+  path: string,
+  file: File,
+  { onProgress, signal, uploadUrl, onUploadUrl }: ResumableUploadOptions = {}
+) {
+  signal?.throwIfAborted()
+
+  return new Promise<void>((resolve, reject) => {
+    const upload = new Upload(file, {
+      endpoint: ENDPOINT,
+      uploadUrl,
+      chunkSize: CHUNK_SIZE,
+      retryDelays: [0, 3000, 5000, 10000, 20000],
+      headers: {
+        apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+        "x-upsert": "false",
+      },
+      metadata: {
+        bucketName: bucket,
+        objectName: path,
+        contentType: file.type || "application/octet-stream",
+        cacheControl: "3600",
+      },
+      uploadDataDuringCreation: true,
+      // Resuming relies on the URL the caller keeps, not on a fingerprint.
+      storeFingerprintForResuming: false,
+      onBeforeRequest: authorize,
+      onUploadUrlAvailable: () => {
+        if (upload.url) onUploadUrl?.(upload.url)
+      },
+      onProgress: (bytesSent, bytesTotal) => onProgress?.(bytesSent / bytesTotal),
+      onSuccess: () => {
+        signal?.removeEventListener("abort", abort)
+        resolve()
+      },
+      onError: (error) => {
+        signal?.removeEventListener("abort", abort)
+        // The object was completed before the page was reloaded.
+        if (uploadUrl && responseStatus(error) === 409) {
+          resolve()
+        } else {
+          reject(uploadError(error))
+        }
+      },
+    })
+
+    // Canceling also deletes what the server received so far.
+    const abort = () => {
+      upload.abort(true).catch(() => undefined)
+      reject(new DOMException("Upload canceled", "AbortError"))
+    }
+
+    signal?.addEventListener("abort", abort)
+    upload.start()
+  })
+}
+
+// Drops an interrupted upload the user no longer wants to resume.
+export async function discardResumableUpload(uploadUrl: string) {
+  await Upload.terminate(uploadUrl, {
+    headers: { apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY },
+    onBeforeRequest: authorize,
+  })
+}
@@ -0,0 +1,47 @@
+// Files shared to the app from the OS share sheet. The service worker
+// receives them and keeps them in a cache until the app has uploaded them.
+const SHARED_FILES_CACHE = "studidash-shared-files"
+const SHARED_FILE_PREFIX = "/shared-files/"
+
+export const SHARE_TARGET_PATH = "/share-target"
+export const SHARE_PAGE_PATH = "/share"
+
+export async function storeSharedFiles(files: File[]) {
+  await caches.delete(SHARED_FILES_CACHE)
+  const cache = await caches.open(SHARED_FILES_CACHE)
+
+  await Promise.all(
+    files.map((file, index) =>
+      cache.put(
+        `${SHARED_FILE_PREFIX}${index}`,
+        new Response(file, {
+          headers: {
+            "Content-Type": file.type,
+            "X-Filename": encodeURIComponent(file.name),
+          },
+        })
+      )
+    )
+  )
+}
+
+export async function getSharedFiles(): Promise<File[]> {
+  if (!("caches" in self)) return []
+
+  const cache = await caches.open(SHARED_FILES_CACHE)
+  const requests = await cache.keys()
+
+  return Promise.all(
+    requests.map(async (request) => {
+      const response = await cache.match(request)
+      const filename = decodeURIComponent(response.headers.get("X-Filename") || "document.pdf")
+      return new File([await response.blob()], filename, {
+        type: response.headers.get("Content-Type") || "application/pdf",
+      })
+    })
+  )
+}
+
+export function clearSharedFiles() {
+  return caches.delete(SHARED_FILES_CACHE)
+}
@@ -0,0 +1,15 @@
+import { supabase } from "@/integrations/supabase/client"
+
+// Saves a stored object under the given name, through a temporary blob link.
+export async function downloadFromStorage(bucket: string, path: string, filename: string) {
+  const { data, error } = await supabase.storage.from(bucket).download(path)
+
+  if (error) throw error
+
+  const url = URL.createObjectURL(data)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,73 @@
+import { supabase } from "@/integrations/supabase/client"
+
+export interface UploadOptions {
+  // Called with the share of the file sent so far, from 0 to 1.
+  onProgress?: (progress: number) => void
+  signal?: AbortSignal
+}
+
+export function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === "AbortError"
+}
+
+// Storage answers failed uploads with `{ error, message }`; the message is
+// what tells the user why, e.g. an exceeded size limit or a refused type.
+function uploadError(request: XMLHttpRequest) {
+  try {
+    const body = JSON.parse(request.responseText)
+    return new Error(body.message || body.error || request.statusText)
+  } catch {
+    return new Error(request.statusText || `HTTP ${request.status}`)
+  }
+}
+
+// The storage client reports no progress, so the file is sent with an
+// XMLHttpRequest to a signed upload URL instead.
+export async function uploadToStorage(
+  bucket: string,
+  path: string,
+  file: File,
+  { onProgress, signal }: UploadOptions = {}
+) {
+  signal?.throwIfAborted()
+
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .createSignedUploadUrl(path)
+
+  if (error) throw error
+
+  await new Promise<void>((resolve, reject) => {
+    const request = new XMLHttpRequest()
+    const abort = () => request.abort()
+
+    request.open("PUT", data.signedUrl)
+    request.setRequestHeader("content-type", file.type || "application/octet-stream")
+    request.setRequestHeader("cache-control", "max-age=3600")
+    request.setRequestHeader("x-upsert", "false")
+
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total)
+    }
+    request.onload = () => {
+      signal?.removeEventListener("abort", abort)
+      if (request.status >= 200 && request.status < 300) {
+        onProgress?.(1)
+        resolve()
+      } else {
+        reject(uploadError(request))
+      }
+    }
+    request.onerror = () => {
+      signal?.removeEventListener("abort", abort)
+      reject(new TypeError("Network request failed"))
+    }
+    request.onabort = () => {
+      signal?.removeEventListener("abort", abort)
+      reject(new DOMException("Upload canceled", "AbortError"))
+    }
+
+    signal?.addEventListener("abort", abort)
+    request.send(file)
+  })
+}
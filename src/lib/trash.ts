@@ -0,0 +1,21 @@
+import { supabase } from "@/integrations/supabase/client"
+
+export type TrashableTable = "courses" | "course_notes" | "course_files"
+
+export async function moveToTrash(table: TrashableTable, id: string) {
+  const { error } = await supabase
+    .from(table)
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("id", id)
+
+  if (error) throw error
+}
+
+export async function restoreFromTrash(table: TrashableTable, id: string) {
+  const { error } = await supabase
+    .from(table)
+    .update({ deleted_at: null })
+    .eq("id", id)
+
+  if (error) throw error
+}
@@ -0,0 +1,70 @@
+import { ToastAction } from "@/components/ui/toast"
+import { toast } from "@/hooks/use-toast"
+import { translateStored } from "@/lib/i18n"
+
+export interface UndoableCommand {
+  title: string
+  description?: string
+  run: () => Promise<void>
+  undo: () => Promise<void>
+}
+
+interface UndoEntry {
+  id: number
+  command: UndoableCommand
+}
+
+// How long an executed command can still be reverted.
+const UNDO_WINDOW = 6000
+
+const undoStack: UndoEntry[] = []
+let count = 0
+
+function takeEntry(entryId: number) {
+  const index = undoStack.findIndex((entry) => entry.id === entryId)
+  if (index === -1) return null
+  return undoStack.splice(index, 1)[0]
+}
+
+async function revert(entry: UndoEntry | null) {
+  if (!entry) return
+
+  try {
+    await entry.command.undo()
+    toast({
+      title: translateStored("undo.reverted"),
+      description: entry.command.title,
+    })
+  } catch (error) {
+    toast({
+      variant: "destructive",
+      title: translateStored("common.error"),
+      description: translateStored("undo.revertError"),
+    })
+  }
+}
+
+// Runs the command, then offers to revert it from a toast for a few seconds.
+// Errors thrown by `run` are passed on to the caller.
+export async function execute(command: UndoableCommand) {
+  await command.run()
+
+  const entry = { id: ++count, command }
+  undoStack.push(entry)
+  setTimeout(() => takeEntry(entry.id), UNDO_WINDOW)
+
+  toast({
+    title: command.title,
+    description: command.description,
+    duration: UNDO_WINDOW,
+    action: (
+      <ToastAction altText={translateStored("undo.action")} onClick={() => revert(takeEntry(entry.id))}>
+        {translateStored("undo.action")}
+      </ToastAction>
+    ),
+  })
+}
+
+export function undoLast() {
+  return revert(undoStack.pop() || null)
+}
@@ -4,3 +4,39 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export const courseColors = [
+  "#6c5ce7", "#a29bfe", "#fd79a8", "#fdcb6e",
+  "#e17055", "#00b894", "#00cec9", "#0984e3",
+  "#6c5ce7", "#fd79a8", "#e84393", "#00b894",
+]
+
+// Course colors are drawn on cards of either theme: text and icons in a
+// course color are darkened on light backgrounds and lightened on dark ones
+// until they stay readable.
+export function readableCourseColor(color: string, theme: "light" | "dark") {
+  const match = /^#([0-9a-f]{6})$/i.exec(color ?? "")
+  if (!match) return color
+
+  const value = parseInt(match[1], 16)
+  const [r, g, b] = [value >> 16, (value >> 8) & 0xff, value & 0xff].map((c) => c / 255)
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const delta = max - min
+  const lightness = (max + min) / 2
+  const saturation = delta === 0 ? 0 : delta / (1 - Math.abs(2 * lightness - 1))
+
+  let hue = 0
+  if (delta !== 0) {
+    if (max === r) hue = ((g - b) / delta) % 6
+    else if (max === g) hue = (b - r) / delta + 2
+    else hue = (r - g) / delta + 4
+  }
+  hue = Math.round(hue * 60 + 360) % 360
+
+  const readable = theme === "dark"
+    ? Math.max(lightness, 0.65)
+    : Math.min(lightness, 0.45)
+
+  return `hsl(${hue} ${Math.round(saturation * 100)}% ${Math.round(readable * 100)}%)`
+}
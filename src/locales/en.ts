@@ -0,0 +1,496 @@
+import type { Messages } from "./fr"
+
+const en: Messages = {
+  "common.cancel": "Cancel",
+  "common.save": "Save",
+  "common.error": "Error",
+  "common.loading": "Loading...",
+  "common.noDescription": "No description",
+  "common.noContent": "No content",
+  "common.updatedOn": "Updated {date}",
+  "common.updated": "Updated",
+  "common.newCourse": "New course",
+  "common.createCourse": "Create a course",
+  "common.noCoursesYet": "No courses yet",
+  "common.createFirstCourse": "Create your first course to start organizing your studies",
+  "common.tryOtherFilters": "Try changing your search criteria",
+  "common.email": "Email",
+  "common.password": "Password",
+  "common.notes": { one: "{count} note", other: "{count} notes" },
+  "common.files": { one: "{count} file", other: "{count} files" },
+
+  "status.active": "Active",
+  "status.completed": "Completed",
+  "status.archived": "Archived",
+
+  "kind.course": "Course",
+  "kind.note": "Note",
+  "kind.file": "File",
+
+  "locale.label": "Language",
+  "locale.fr": "Français",
+  "locale.en": "English",
+  "locale.saveError": "Could not save the language",
+
+  "theme.label": "Theme",
+  "theme.light": "Light",
+  "theme.dark": "Dark",
+  "theme.system": "System",
+  "theme.saveError": "Could not save the theme",
+
+  "nav.dashboard": "Dashboard",
+  "nav.courses": "My courses",
+  "nav.notes": "Notes",
+  "nav.trash": "Trash",
+  "nav.settings": "Settings",
+
+  "layout.searchPlaceholder": "Search everything...",
+  "layout.commandPaletteHint": "for the command palette",
+  "layout.signOut": "Sign out",
+  "layout.signOutError": "Could not sign out",
+
+  "palette.placeholder": "Search for a course, a note or an action...",
+  "palette.recent": "Recent",
+  "palette.actions": "Actions",
+  "palette.courses": "Courses",
+  "palette.newNote": "New note in {course}",
+  "palette.upload": "Upload a file to {course}",
+  "palette.createKeyword": "create",
+  "palette.fileKeyword": "file",
+  "palette.signOutKeyword": "log out",
+
+  "sync.online": "Online",
+  "sync.offline": "Offline",
+  "sync.syncing": "Syncing...",
+  "sync.pending": {
+    one: "{count} pending change",
+    other: "{count} pending changes",
+  },
+  "sync.offlineHint": "Your notes are saved on this device and will be synced when the network is back",
+  "sync.replayError": "Some offline changes were rejected by the server; they are still kept on this device",
+  "sync.conflictTitle": "Sync conflict",
+  "sync.conflictDescription": {
+    one: "A note was changed elsewhere: your offline version was saved as a copy",
+    other: "{count} notes were changed elsewhere: your offline versions were saved as copies",
+  },
+  "sync.offlineCopy": "{title} (offline copy)",
+
+  "dashboard.title": "Dashboard",
+  "dashboard.subtitle": "Welcome! Here is an overview of your courses.",
+  "dashboard.totalCourses": "Total courses",
+  "dashboard.activeCourses": "Active courses",
+  "dashboard.completedCourses": "Completed courses",
+  "dashboard.totalNotes": "Total notes",
+  "dashboard.recentCourses": "Recent courses",
+  "dashboard.seeAll": "See all",
+
+  "courses.title": "My courses",
+  "courses.subtitle": "Manage all your courses in one place",
+  "courses.searchPlaceholder": "Search courses...",
+  "courses.allStatuses": "All statuses",
+  "courses.filter.active": "Active",
+  "courses.filter.completed": "Completed",
+  "courses.filter.archived": "Archived",
+  "courses.noResults": "No courses found",
+  "courses.statusUpdated": "Status updated",
+  "courses.statusUpdatedDescription": "The course status has been changed",
+  "courses.statusUpdateError": "Could not change the status",
+
+  "courseDetail.notFound": "Course not found",
+  "courseDetail.titlePlaceholder": "Course title",
+  "courseDetail.descriptionPlaceholder": "Course description",
+  "courseDetail.updated": "Course updated",
+  "courseDetail.updatedDescription": "Your changes have been saved",
+  "courseDetail.updateError": "Could not save your changes",
+  "courseDetail.tabs.notes": "Notes",
+  "courseDetail.tabs.files": "Files",
+  "courseDetail.notesTitle": "Course notes",
+  "courseDetail.newNote": "New note",
+  "courseDetail.createNoteTitle": "Create a new note",
+  "courseDetail.noteTitle": "Note title",
+  "courseDetail.noteTitlePlaceholder": "Note title...",
+  "courseDetail.noteContent": "Content",
+  "courseDetail.noteContentPlaceholder": "Write your note here...",
+  "courseDetail.createNote": "Create note",
+  "courseDetail.noteCreated": "Note created",
+  "courseDetail.noteCreatedDescription": "Your note has been added",
+  "courseDetail.noteCreateError": "Could not create the note",
+  "courseDetail.noNotes": "No notes yet",
+  "courseDetail.noNotesDescription": "Create the first note for this course",
+  "courseDetail.filesTitle": "Course files",
+  "courseDetail.fileDownloadError": "Could not download the file",
+  "courseDetail.noFiles": "No files yet",
+  "courseDetail.noFilesDescription": "Upload the first file for this course",
+  "courseDetail.fileTrashed": "File moved to trash",
+  "courseDetail.fileTrashedDescription": "You can restore it for 30 days",
+  "courseDetail.fileDeleteError": "Could not delete the file",
+
+  "newCourse.subtitle": "Create a new course to organize your studies",
+  "newCourse.details": "Course details",
+  "newCourse.title": "Course title *",
+  "newCourse.titlePlaceholder": "E.g. Advanced mathematics",
+  "newCourse.description": "Description",
+  "newCourse.descriptionPlaceholder": "Briefly describe what this course covers...",
+  "newCourse.color": "Course color",
+  "newCourse.creating": "Creating...",
+  "newCourse.titleRequired": "The title is required",
+  "newCourse.created": "Course created!",
+  "newCourse.createdDescription": "Your new course was created",
+  "newCourse.createError": "Could not create the course",
+
+  "share.title": "Add to a course",
+  "share.subtitle": "Choose the course to save the shared files in",
+  "share.files": "Shared files",
+  "share.none": "No files to add",
+  "share.backToDashboard": "Back to the dashboard",
+  "share.course": "Course",
+  "share.noCourses": "You do not have any courses yet",
+  "share.pickCourse": "Choose a course",
+  "share.add": "Add to the course",
+  "share.added": {
+    one: "File added",
+    other: "Files added",
+  },
+  "share.addedDescription": {
+    one: "The file was added to the course",
+    other: "{count} files were added to the course",
+  },
+  "share.error": "Could not upload the shared files",
+
+  "upload.dropHere": "Drop files or folders here",
+  "upload.dropHint": "or pick them from your device",
+  "upload.pickFiles": "Pick files",
+  "upload.pickFolder": "Pick a folder",
+  "upload.dialogTitle": "Upload to {course}",
+  "upload.dialogDescription": "Files are added to the open folder.",
+  "upload.title": "Uploads",
+  "upload.progress": "{done} of {total} done",
+  "upload.status.queued": "Queued",
+  "upload.status.uploading": "{percent}%",
+  "upload.status.done": "Done",
+  "upload.status.error": "Failed",
+  "upload.status.canceled": "Canceled",
+  "upload.status.interrupted": "Interrupted",
+  "upload.status.hashing": "Analyzing...",
+  "upload.status.duplicate": "Duplicate",
+  "upload.status.linked": "Linked",
+  "upload.duplicateInCourse": "Already in this course: {name}",
+  "upload.duplicateInOtherCourse": "Already in “{course}”: {name}",
+  "upload.link": "Link existing file",
+  "upload.uploadAnyway": "Upload anyway",
+  "upload.interruptedHint": "Some uploads were interrupted. Pick the same files again to resume them where they stopped.",
+  "upload.resume": "Resume",
+  "upload.cancel": "Cancel upload",
+  "upload.retry": "Retry",
+  "upload.retryFailed": "Retry all",
+  "upload.clearFinished": "Clear finished",
+  "upload.failed": {
+    one: "{count} file could not be uploaded",
+    other: "{count} files could not be uploaded",
+  },
+
+  "folders.root": "Files",
+  "folders.new": "New folder",
+  "folders.name": "Folder name",
+  "folders.create": "Create",
+  "folders.rename": "Rename",
+  "folders.renameTitle": "Rename folder",
+  "folders.moveTo": "Move to",
+  "folders.actions": "Folder actions",
+  "folders.delete": "Delete folder",
+  "folders.deleteTitle": "Delete the folder “{name}”?",
+  "folders.deleteDescription": {
+    one: "Its subfolders will be deleted and {count} file will be moved to the trash, from where it can be restored to the root of the course.",
+    other: "Its subfolders will be deleted and {count} files will be moved to the trash, from where they can be restored to the root of the course.",
+  },
+  "folders.deleted": "Folder deleted",
+  "folders.deletedDescription": {
+    one: "{count} file was moved to the trash",
+    other: "{count} files were moved to the trash",
+  },
+  "folders.empty": "This folder is empty",
+  "folders.emptyDescription": "Upload files here or drag them from another folder",
+  "folders.nameTaken": "A folder with this name already exists here",
+  "folders.createError": "Could not create the folder",
+  "folders.renameError": "Could not rename the folder",
+  "folders.moveError": "Could not move the item",
+  "folders.deleteError": "Could not delete the folder",
+
+  "files.actions": "File actions",
+  "files.rename": "Rename",
+  "files.renameTitle": "Rename file",
+  "files.name": "File name",
+  "files.renameError": "Could not rename the file",
+  "files.delete": "Move to trash",
+
+  "versions.menu": "Versions",
+  "versions.title": "Versions of “{name}”",
+  "versions.description": "Previous versions are kept and can be restored at any time.",
+  "versions.upload": "Upload a new version",
+  "versions.uploading": "Uploading the new version... {percent}%",
+  "versions.uploaded": "New version saved",
+  "versions.uploadError": "Could not upload the new version",
+  "versions.identical": "This file is identical to the current version",
+  "versions.current": "Current version",
+  "versions.none": "No previous versions",
+  "versions.restore": "Restore",
+  "versions.restored": "Version restored",
+  "versions.restoredDescription": "The replaced version was added to the history",
+  "versions.restoreError": "Could not restore this version",
+
+  "duplicates.open": "Find duplicates",
+  "duplicates.title": "Duplicate files",
+  "duplicates.description": "Files across all your courses with exactly the same content. Files uploaded before this check was added are not compared.",
+  "duplicates.none": "No duplicates found",
+  "duplicates.wasted": "{size} could be freed",
+  "duplicates.copies": { one: "{count} copy", other: "{count} copies" },
+  "duplicates.linked": "Linked",
+
+  "preview.open": "Preview",
+  "preview.position": "{index} of {total}",
+  "preview.previous": "Previous file",
+  "preview.next": "Next file",
+  "preview.download": "Download",
+  "preview.unsupported": "This type of file cannot be previewed.",
+  "preview.loadError": "The file preview could not be loaded.",
+  "preview.page": "Page {page} of {total}",
+  "preview.previousPage": "Previous page",
+  "preview.nextPage": "Next page",
+  "preview.zoomIn": "Zoom in",
+  "preview.zoomOut": "Zoom out",
+
+  "notes.title": "All my notes",
+  "notes.subtitle": "Find all your notes, organized by course",
+  "notes.searchPlaceholder": "Search your notes...",
+  "notes.allCourses": "All courses",
+  "notes.noResults": "No notes found",
+  "notes.noNotes": "No notes yet",
+  "notes.noNotesDescription": "Notes you create in your courses will show up here",
+  "notes.seeCourses": "See my courses",
+  "notes.trashed": "Note moved to trash",
+  "notes.trashedDescription": "You can restore it for 30 days",
+  "notes.deleteError": "Could not delete the note",
+
+  "noteEditor.notFound": "Note not found",
+  "noteEditor.titlePlaceholder": "Note title",
+  "noteEditor.contentPlaceholder": "Write your note here...",
+  "noteEditor.saveError": "Could not save the note",
+  "noteEditor.restored": "Version restored",
+  "noteEditor.restoredDescription": "The selected version is now the current version",
+  "noteEditor.saving": "Saving...",
+  "noteEditor.dirty": "Unsaved changes",
+  "noteEditor.conflict": "Conflict",
+  "noteEditor.failed": "Save failed",
+  "noteEditor.saved": "Saved",
+  "noteEditor.changedOn": "Changed on {date}",
+  "noteEditor.changedElsewhere": "Updated from another device",
+  "noteEditor.retry": "Retry",
+  "noteEditor.conflictTitle": "This note was changed elsewhere",
+  "noteEditor.conflictDescription": "A newer version exists on the server. Your changes were not saved.",
+  "noteEditor.loadServerVersion": "Load the server version",
+  "noteEditor.overwrite": "Overwrite",
+  "noteEditor.restoreConflict": "Resolve the conflict first by loading the server version or overwriting it",
+  "noteEditor.lastSaved": "Last saved: {date}",
+
+  "markdown.supported": "Markdown supported",
+  "markdown.write": "Write",
+  "markdown.split": "Side by side",
+  "markdown.preview": "Preview",
+  "markdown.nothingToPreview": "Nothing to show",
+
+  "history.open": "History",
+  "history.title": "Version history",
+  "history.description": "Compare two versions of the note or restore a previous one",
+  "history.current": "Current version",
+  "history.none": "No previous versions yet",
+  "history.restore": "Restore",
+  "history.restoreHint": "Restoring a version saves it as a new version; the current version stays in the history.",
+
+  "search.title": "Search",
+  "search.subtitle": "Search your courses, notes and files",
+  "search.placeholder": "Search...",
+  "search.error": "Could not run the search",
+  "search.offline": "Search is not available offline",
+  "search.noResults": "No results",
+  "search.noResultsDescription": "Try other keywords",
+
+  "deleteCourse.title": "Delete “{title}”?",
+  "deleteCourse.description": "The course and its content will be moved to the trash, then permanently deleted after 30 days:",
+  "deleteCourse.previewError": "Could not work out the course content.",
+  "deleteCourse.previewLoading": "Working out the content...",
+  "deleteCourse.confirm": "Move to trash",
+  "deleteCourse.trashed": "Course moved to trash",
+  "deleteCourse.trashedDescription": "“{title}” can be restored for 30 days",
+  "deleteCourse.error": "Could not delete the course, please try again",
+
+  "auth.tagline": "Organize your courses like a pro",
+  "auth.welcome": "Welcome",
+  "auth.welcomeDescription": "Sign in or create an account to get started",
+  "auth.mfaTitle": "Two-step verification",
+  "auth.mfaDescription": "Enter the code generated by your authenticator app",
+  "auth.signInTab": "Sign in",
+  "auth.signUpTab": "Sign up",
+  "auth.signIn": "Sign in",
+  "auth.signUp": "Create an account",
+  "auth.signUpSuccess": "Signed up!",
+  "auth.signUpSuccessDescription": "Check your email to confirm your account.",
+  "auth.forgotPassword": "Forgot your password?",
+  "auth.passwordless": "Passwordless sign-in",
+  "auth.fillAllFields": "Please fill in all fields",
+  "auth.backToSignIn": "Back to sign in",
+  "auth.resetSent": "If an account exists for {email}, you will receive an email with a link to choose a new password.",
+  "auth.resetPrompt": "Enter your email to receive a reset link.",
+  "auth.sendLink": "Send link",
+  "auth.otpSent": "Click the link sent to {email} or enter the {length}-digit code it contains.",
+  "auth.resendCode": "Resend code",
+  "auth.otpPrompt": "Get a sign-in link and a one-time code by email.",
+  "auth.receiveCode": "Get a code",
+  "auth.invalidCode": "Invalid code",
+  "auth.invalidCodeDescription": "The code is wrong or has expired",
+  "auth.mfaDisabled": "Two-factor authentication disabled",
+  "auth.mfaDisabledDescription": "Turn it back on in the settings with your new device.",
+  "auth.invalidRecoveryCode": "This recovery code is not valid",
+  "auth.recoveryPrompt": "Enter one of the recovery codes you got when turning it on. Two-factor authentication will be disabled.",
+  "auth.useAuthenticator": "Use the authenticator app",
+  "auth.verify": "Verify",
+  "auth.useRecoveryCode": "Use a recovery code",
+
+  "password.new": "New password",
+  "password.confirm": "Confirm the password",
+  "password.tooShort": "The password must be at least {length} characters long",
+  "password.mismatch": "The passwords do not match",
+  "password.updated": "Password changed",
+  "password.updatedDescription": "Your new password is active",
+
+  "reset.title": "New password",
+  "reset.description": "Choose the password you will use from now on",
+  "reset.invalidLink": "This reset link is invalid or has expired",
+  "reset.requestNewLink": "Request a new link",
+  "reset.submit": "Save the password",
+
+  "undo.action": "Undo",
+  "undo.reverted": "Action undone",
+  "undo.revertError": "Could not undo the action",
+
+  "pwa.updateTitle": "New version available",
+  "pwa.updateDescription": "Reload the page to use it",
+  "pwa.reload": "Reload",
+  "pwa.offlineReadyTitle": "Ready for offline use",
+  "pwa.offlineReadyDescription": "StudiDash can now open without a connection",
+
+  "errors.loadCourses": "Could not load the courses",
+  "errors.loadCourse": "Could not load the course",
+  "errors.loadTrash": "Could not load the trash",
+  "errors.loadFolders": "Could not load the course folders",
+  "errors.loadFiles": "Could not load the course files",
+  "errors.findDuplicates": "Could not look for duplicates",
+  "errors.loadVersions": "Could not load the file versions",
+  "errors.loadNotes": "Could not load the notes",
+  "errors.loadCourseNotes": "Could not load the course notes",
+  "errors.loadData": "Could not load the data",
+  "errors.loadNote": "Could not load the note",
+  "errors.loadHistory": "Could not load the history",
+
+  "trash.title": "Trash",
+  "trash.subtitle": "Deleted items are kept for {days} days before being erased for good",
+  "trash.empty": "The trash is empty",
+  "trash.emptyDescription": "Deleted courses, notes and files will show up here",
+  "trash.deletedOn": "Deleted on {date}",
+  "trash.daysLeft": {
+    one: "{count} day left",
+    other: "{count} days left",
+  },
+  "trash.restore": "Restore",
+  "trash.restored": "Item restored",
+  "trash.restoredDescription": "“{title}” was restored",
+  "trash.restoreError": "Could not restore the item",
+  "trash.deleteForever": "Delete forever",
+  "trash.deleteTitle": "Delete forever?",
+  "trash.deleteDescription": "“{title}” will be erased for good. This cannot be undone.",
+  "trash.deleteCourseDescription": "“{title}” will be erased for good, with all its notes and files. This cannot be undone.",
+  "trash.deleted": "Deleted forever",
+  "trash.deletedDescription": "“{title}” was deleted",
+  "trash.deleteError": "Could not delete the item",
+
+  "settings.title": "Settings",
+  "settings.subtitle": "Manage your profile, your account and your preferences",
+  "settings.profile": "Profile",
+  "settings.changeAvatar": "Change avatar",
+  "settings.removeAvatar": "Remove",
+  "settings.displayName": "Display name",
+  "settings.displayNamePlaceholder": "E.g. Jane Smith",
+  "settings.saving": "Saving...",
+  "settings.save": "Save",
+  "settings.profileUpdated": "Profile updated",
+  "settings.profileUpdatedDescription": "Your display name was saved",
+  "settings.profileError": "Could not update the profile",
+  "settings.avatarNotImage": "The avatar must be an image",
+  "settings.avatarTooLarge": "The image must not exceed {size}",
+  "settings.avatarUpdated": "Avatar updated",
+  "settings.avatarUpdatedDescription": "Your new avatar was saved",
+  "settings.avatarUploadError": "Could not upload the avatar",
+  "settings.avatarRemoveError": "Could not remove the avatar",
+  "settings.email": "Email address",
+  "settings.currentEmail": "Current address: {email}",
+  "settings.newEmail": "New email address",
+  "settings.emailPlaceholder": "you@email.com",
+  "settings.changeEmail": "Change",
+  "settings.emailSent": "Confirmation sent",
+  "settings.emailSentDescription": "Click the link sent by email to confirm your new address.",
+  "settings.password": "Password",
+  "settings.changePassword": "Change password",
+  "settings.preferences": "Preferences",
+  "settings.defaultColor": "Default color for new courses",
+  "settings.preferencesSaved": "Preferences saved",
+  "settings.preferencesSavedDescription": "Your preferences were updated",
+  "settings.preferencesError": "Could not save the preferences",
+  "settings.dangerZone": "Danger zone",
+  "settings.dangerZoneDescription": "Deleting the account erases all your courses, notes and files for good.",
+  "settings.deleteAccount": "Delete my account",
+  "settings.deleteAccountTitle": "Delete your account?",
+  "settings.deleteAccountDescription": "All your data will be deleted right away, without going through the trash. This cannot be undone. Type {word} to confirm.",
+  "settings.deleteAccountWord": "DELETE",
+  "settings.deleteAccountConfirm": "Delete forever",
+  "settings.accountDeleted": "Account deleted",
+  "settings.accountDeletedDescription": "Your account and all your data were deleted",
+  "settings.deleteAccountError": "Could not delete the account, please try again",
+
+  "mfa.title": "Two-factor authentication",
+  "mfa.enabled": "On",
+  "mfa.description": "Protect your account with a one-time code generated by an authenticator app (Google Authenticator, 1Password, Authy...).",
+  "mfa.authenticator": "Authenticator",
+  "mfa.authenticatorName": "Authenticator {date}",
+  "mfa.addedOn": "Added on {date}",
+  "mfa.removeTitle": "Remove this authenticator?",
+  "mfa.removeLastDescription": "Two-factor authentication will be turned off and your recovery codes invalidated.",
+  "mfa.removeDescription": "It can no longer be used to sign in.",
+  "mfa.remove": "Remove",
+  "mfa.scanStep": "1. Scan this QR code with your authenticator app.",
+  "mfa.qrCode": "QR code",
+  "mfa.manualKey": "Or enter this key manually",
+  "mfa.codeStep": "2. Enter the 6-digit code shown by the app.",
+  "mfa.verify": "Verify",
+  "mfa.add": "Add an authenticator",
+  "mfa.enable": "Turn on two-factor authentication",
+  "mfa.regenerateCodes": "Generate new recovery codes",
+  "mfa.recoveryCodes": "Recovery codes",
+  "mfa.recoveryCodesDescription": "Each code lets you sign in if you lose your phone, which turns off two-factor authentication. They will not be shown again: keep them now.",
+  "mfa.copy": "Copy",
+  "mfa.download": "Download",
+  "mfa.codesKept": "I have kept my codes",
+  "mfa.codesFilename": "studidash-recovery-codes.txt",
+  "mfa.codesCopied": "Codes copied",
+  "mfa.codesCopiedDescription": "Keep them somewhere safe",
+  "mfa.enabledToast": "Two-factor authentication turned on",
+  "mfa.enabledToastDescription": "A code will be asked for every time you sign in",
+  "mfa.invalidCodeDescription": "Check the time on your phone and try again",
+  "mfa.removed": "Authenticator removed",
+  "mfa.removedLastDescription": "Two-factor authentication is turned off",
+  "mfa.removedDescription": "The authenticator was removed from your account",
+  "mfa.loadError": "Could not load two-factor authentication",
+  "mfa.enrollError": "Could not start turning it on",
+  "mfa.codesError": "Could not generate the recovery codes",
+  "mfa.removeError": "Could not remove the authenticator",
+}
+
+export default en
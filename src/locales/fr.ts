@@ -0,0 +1,503 @@
+// Reference catalog: every other locale must provide the same keys.
+// Values are interpolated with `{name}` placeholders; plural messages are
+// picked with the `count` parameter.
+const fr = {
+  "common.cancel": "Annuler",
+  "common.save": "Sauvegarder",
+  "common.error": "Erreur",
+  "common.loading": "Chargement...",
+  "common.noDescription": "Aucune description",
+  "common.noContent": "Aucun contenu",
+  "common.updatedOn": "Mis à jour {date}",
+  "common.updated": "Mis à jour",
+  "common.newCourse": "Nouveau cours",
+  "common.createCourse": "Créer un cours",
+  "common.noCoursesYet": "Aucun cours pour le moment",
+  "common.createFirstCourse": "Créez votre premier cours pour commencer à organiser vos études",
+  "common.tryOtherFilters": "Essayez de modifier vos critères de recherche",
+  "common.email": "Email",
+  "common.password": "Mot de passe",
+  "common.notes": { one: "{count} note", other: "{count} notes" },
+  "common.files": { one: "{count} fichier", other: "{count} fichiers" },
+
+  "status.active": "Actif",
+  "status.completed": "Terminé",
+  "status.archived": "Archivé",
+
+  "kind.course": "Cours",
+  "kind.note": "Note",
+  "kind.file": "Fichier",
+
+  "locale.label": "Langue",
+  "locale.fr": "Français",
+  "locale.en": "English",
+  "locale.saveError": "Impossible d'enregistrer la langue",
+
+  "theme.label": "Thème",
+  "theme.light": "Clair",
+  "theme.dark": "Sombre",
+  "theme.system": "Système",
+  "theme.saveError": "Impossible d'enregistrer le thème",
+
+  "nav.dashboard": "Dashboard",
+  "nav.courses": "Mes cours",
+  "nav.notes": "Notes",
+  "nav.trash": "Corbeille",
+  "nav.settings": "Paramètres",
+
+  "layout.searchPlaceholder": "Rechercher partout...",
+  "layout.commandPaletteHint": "pour la palette de commandes",
+  "layout.signOut": "Déconnexion",
+  "layout.signOutError": "Impossible de se déconnecter",
+
+  "palette.placeholder": "Rechercher un cours, une note ou une action...",
+  "palette.recent": "Récents",
+  "palette.actions": "Actions",
+  "palette.courses": "Cours",
+  "palette.newNote": "Nouvelle note dans {course}",
+  "palette.upload": "Uploader un fichier dans {course}",
+  "palette.createKeyword": "créer",
+  "palette.fileKeyword": "fichier",
+  "palette.signOutKeyword": "se déconnecter",
+
+  "sync.online": "En ligne",
+  "sync.offline": "Hors ligne",
+  "sync.syncing": "Synchronisation...",
+  "sync.pending": {
+    one: "{count} modification en attente",
+    other: "{count} modifications en attente",
+  },
+  "sync.offlineHint": "Vos notes sont enregistrées sur cet appareil et seront synchronisées au retour du réseau",
+  "sync.replayError": "Certaines modifications hors ligne ont été refusées par le serveur ; elles restent enregistrées sur cet appareil",
+  "sync.conflictTitle": "Conflit de synchronisation",
+  "sync.conflictDescription": {
+    one: "Une note a été modifiée ailleurs : votre version hors ligne a été enregistrée comme copie",
+    other: "{count} notes ont été modifiées ailleurs : vos versions hors ligne ont été enregistrées comme copies",
+  },
+  "sync.offlineCopy": "{title} (copie hors ligne)",
+
+  "dashboard.title": "Dashboard",
+  "dashboard.subtitle": "Bienvenue ! Voici un aperçu de vos cours.",
+  "dashboard.totalCourses": "Total des cours",
+  "dashboard.activeCourses": "Cours actifs",
+  "dashboard.completedCourses": "Cours terminés",
+  "dashboard.totalNotes": "Total des notes",
+  "dashboard.recentCourses": "Cours récents",
+  "dashboard.seeAll": "Voir tout",
+
+  "courses.title": "Mes cours",
+  "courses.subtitle": "Gérez tous vos cours en un seul endroit",
+  "courses.searchPlaceholder": "Rechercher un cours...",
+  "courses.allStatuses": "Tous les statuts",
+  "courses.filter.active": "Actifs",
+  "courses.filter.completed": "Terminés",
+  "courses.filter.archived": "Archivés",
+  "courses.noResults": "Aucun cours trouvé",
+  "courses.statusUpdated": "Statut mis à jour",
+  "courses.statusUpdatedDescription": "Le statut du cours a été modifié avec succès",
+  "courses.statusUpdateError": "Impossible de modifier le statut",
+
+  "courseDetail.notFound": "Cours introuvable",
+  "courseDetail.titlePlaceholder": "Titre du cours",
+  "courseDetail.descriptionPlaceholder": "Description du cours",
+  "courseDetail.updated": "Cours mis à jour",
+  "courseDetail.updatedDescription": "Les modifications ont été sauvegardées",
+  "courseDetail.updateError": "Impossible de sauvegarder les modifications",
+  "courseDetail.tabs.notes": "Notes",
+  "courseDetail.tabs.files": "Fichiers",
+  "courseDetail.notesTitle": "Notes du cours",
+  "courseDetail.newNote": "Nouvelle note",
+  "courseDetail.createNoteTitle": "Créer une nouvelle note",
+  "courseDetail.noteTitle": "Titre de la note",
+  "courseDetail.noteTitlePlaceholder": "Titre de la note...",
+  "courseDetail.noteContent": "Contenu",
+  "courseDetail.noteContentPlaceholder": "Écrivez votre note ici...",
+  "courseDetail.createNote": "Créer la note",
+  "courseDetail.noteCreated": "Note créée",
+  "courseDetail.noteCreatedDescription": "Votre note a été ajoutée avec succès",
+  "courseDetail.noteCreateError": "Impossible de créer la note",
+  "courseDetail.noNotes": "Aucune note pour le moment",
+  "courseDetail.noNotesDescription": "Créez votre première note pour ce cours",
+  "courseDetail.filesTitle": "Fichiers du cours",
+  "courseDetail.fileDownloadError": "Impossible de télécharger le fichier",
+  "courseDetail.noFiles": "Aucun fichier pour le moment",
+  "courseDetail.noFilesDescription": "Uploadez votre premier fichier pour ce cours",
+  "courseDetail.fileTrashed": "Fichier déplacé dans la corbeille",
+  "courseDetail.fileTrashedDescription": "Vous pouvez le restaurer pendant 30 jours",
+  "courseDetail.fileDeleteError": "Impossible de supprimer le fichier",
+
+  "newCourse.subtitle": "Créez un nouveau cours pour organiser vos études",
+  "newCourse.details": "Informations du cours",
+  "newCourse.title": "Titre du cours *",
+  "newCourse.titlePlaceholder": "Ex: Mathématiques avancées",
+  "newCourse.description": "Description",
+  "newCourse.descriptionPlaceholder": "Décrivez brièvement le contenu de ce cours...",
+  "newCourse.color": "Couleur du cours",
+  "newCourse.creating": "Création...",
+  "newCourse.titleRequired": "Le titre est obligatoire",
+  "newCourse.created": "Cours créé !",
+  "newCourse.createdDescription": "Votre nouveau cours a été créé avec succès",
+  "newCourse.createError": "Impossible de créer le cours",
+
+  "share.title": "Ajouter à un cours",
+  "share.subtitle": "Choisissez le cours dans lequel enregistrer les fichiers partagés",
+  "share.files": "Fichiers partagés",
+  "share.none": "Aucun fichier à ajouter",
+  "share.backToDashboard": "Retour au tableau de bord",
+  "share.course": "Cours",
+  "share.noCourses": "Vous n'avez pas encore de cours",
+  "share.pickCourse": "Choisir un cours",
+  "share.add": "Ajouter au cours",
+  "share.added": {
+    one: "Fichier ajouté",
+    other: "Fichiers ajoutés",
+  },
+  "share.addedDescription": {
+    one: "Le fichier a été ajouté au cours",
+    other: "{count} fichiers ont été ajoutés au cours",
+  },
+  "share.error": "Impossible d'uploader les fichiers partagés",
+
+  "upload.dropHere": "Déposez des fichiers ou des dossiers ici",
+  "upload.dropHint": "ou choisissez-les depuis votre appareil",
+  "upload.pickFiles": "Choisir des fichiers",
+  "upload.pickFolder": "Choisir un dossier",
+  "upload.dialogTitle": "Uploader dans {course}",
+  "upload.dialogDescription": "Les fichiers sont ajoutés au dossier ouvert.",
+  "upload.title": "Uploads",
+  "upload.progress": "{done} sur {total} terminés",
+  "upload.status.queued": "En attente",
+  "upload.status.uploading": "{percent} %",
+  "upload.status.done": "Terminé",
+  "upload.status.error": "Échec",
+  "upload.status.canceled": "Annulé",
+  "upload.status.interrupted": "Interrompu",
+  "upload.status.hashing": "Analyse...",
+  "upload.status.duplicate": "Doublon",
+  "upload.status.linked": "Lié",
+  "upload.duplicateInCourse": "Déjà présent dans ce cours : {name}",
+  "upload.duplicateInOtherCourse": "Déjà présent dans « {course} » : {name}",
+  "upload.link": "Lier le fichier existant",
+  "upload.uploadAnyway": "Uploader quand même",
+  "upload.interruptedHint": "Des uploads ont été interrompus. Choisissez à nouveau les mêmes fichiers pour les reprendre là où ils se sont arrêtés.",
+  "upload.resume": "Reprendre",
+  "upload.cancel": "Annuler l'upload",
+  "upload.retry": "Réessayer",
+  "upload.retryFailed": "Tout réessayer",
+  "upload.clearFinished": "Effacer les terminés",
+  "upload.failed": {
+    one: "{count} fichier n'a pas pu être uploadé",
+    other: "{count} fichiers n'ont pas pu être uploadés",
+  },
+
+  "folders.root": "Fichiers",
+  "folders.new": "Nouveau dossier",
+  "folders.name": "Nom du dossier",
+  "folders.create": "Créer",
+  "folders.rename": "Renommer",
+  "folders.renameTitle": "Renommer le dossier",
+  "folders.moveTo": "Déplacer vers",
+  "folders.actions": "Actions du dossier",
+  "folders.delete": "Supprimer le dossier",
+  "folders.deleteTitle": "Supprimer le dossier « {name} » ?",
+  "folders.deleteDescription": {
+    one: "Ses sous-dossiers seront supprimés et {count} fichier sera déplacé dans la corbeille, d'où il pourra être restauré à la racine du cours.",
+    other: "Ses sous-dossiers seront supprimés et {count} fichiers seront déplacés dans la corbeille, d'où ils pourront être restaurés à la racine du cours.",
+  },
+  "folders.deleted": "Dossier supprimé",
+  "folders.deletedDescription": {
+    one: "{count} fichier a été déplacé dans la corbeille",
+    other: "{count} fichiers ont été déplacés dans la corbeille",
+  },
+  "folders.empty": "Ce dossier est vide",
+  "folders.emptyDescription": "Uploadez des fichiers ici ou glissez-en depuis un autre dossier",
+  "folders.nameTaken": "Un dossier porte déjà ce nom à cet endroit",
+  "folders.createError": "Impossible de créer le dossier",
+  "folders.renameError": "Impossible de renommer le dossier",
+  "folders.moveError": "Impossible de déplacer l'élément",
+  "folders.deleteError": "Impossible de supprimer le dossier",
+
+  "files.actions": "Actions du fichier",
+  "files.rename": "Renommer",
+  "files.renameTitle": "Renommer le fichier",
+  "files.name": "Nom du fichier",
+  "files.renameError": "Impossible de renommer le fichier",
+  "files.delete": "Déplacer dans la corbeille",
+
+  "versions.menu": "Versions",
+  "versions.title": "Versions de « {name} »",
+  "versions.description": "Les versions précédentes sont conservées et peuvent être restaurées à tout moment.",
+  "versions.upload": "Uploader une nouvelle version",
+  "versions.uploading": "Upload de la nouvelle version... {percent} %",
+  "versions.uploaded": "Nouvelle version enregistrée",
+  "versions.uploadError": "Impossible d'uploader la nouvelle version",
+  "versions.identical": "Ce fichier est identique à la version actuelle",
+  "versions.current": "Version actuelle",
+  "versions.none": "Aucune version précédente",
+  "versions.restore": "Restaurer",
+  "versions.restored": "Version restaurée",
+  "versions.restoredDescription": "La version remplacée a été ajoutée à l'historique",
+  "versions.restoreError": "Impossible de restaurer cette version",
+
+  "duplicates.open": "Rechercher les doublons",
+  "duplicates.title": "Fichiers en double",
+  "duplicates.description": "Fichiers de tous vos cours ayant exactement le même contenu. Les fichiers uploadés avant l'ajout de cette analyse ne sont pas comparés.",
+  "duplicates.none": "Aucun doublon trouvé",
+  "duplicates.wasted": "{size} pourraient être libérés",
+  "duplicates.copies": { one: "{count} copie", other: "{count} copies" },
+  "duplicates.linked": "Lié",
+
+  "preview.open": "Aperçu",
+  "preview.position": "{index} sur {total}",
+  "preview.previous": "Fichier précédent",
+  "preview.next": "Fichier suivant",
+  "preview.download": "Télécharger",
+  "preview.unsupported": "Ce type de fichier ne peut pas être prévisualisé.",
+  "preview.loadError": "Impossible de charger l'aperçu du fichier.",
+  "preview.page": "Page {page} sur {total}",
+  "preview.previousPage": "Page précédente",
+  "preview.nextPage": "Page suivante",
+  "preview.zoomIn": "Zoomer",
+  "preview.zoomOut": "Dézoomer",
+
+  "notes.title": "Toutes mes notes",
+  "notes.subtitle": "Retrouvez toutes vos notes organisées par cours",
+  "notes.searchPlaceholder": "Rechercher dans vos notes...",
+  "notes.allCourses": "Tous les cours",
+  "notes.noResults": "Aucune note trouvée",
+  "notes.noNotes": "Aucune note pour le moment",
+  "notes.noNotesDescription": "Créez des notes dans vos cours pour les voir apparaître ici",
+  "notes.seeCourses": "Voir mes cours",
+  "notes.trashed": "Note déplacée dans la corbeille",
+  "notes.trashedDescription": "Vous pouvez la restaurer pendant 30 jours",
+  "notes.deleteError": "Impossible de supprimer la note",
+
+  "noteEditor.notFound": "Note introuvable",
+  "noteEditor.titlePlaceholder": "Titre de la note",
+  "noteEditor.contentPlaceholder": "Écrivez votre note ici...",
+  "noteEditor.saveError": "Impossible de sauvegarder la note",
+  "noteEditor.restored": "Version restaurée",
+  "noteEditor.restoredDescription": "La version sélectionnée est maintenant la version actuelle",
+  "noteEditor.saving": "Sauvegarde...",
+  "noteEditor.dirty": "Modifications non sauvegardées",
+  "noteEditor.conflict": "Conflit",
+  "noteEditor.failed": "Échec de la sauvegarde",
+  "noteEditor.saved": "Sauvegardé",
+  "noteEditor.changedOn": "Modifiée le {date}",
+  "noteEditor.changedElsewhere": "Mise à jour depuis un autre appareil",
+  "noteEditor.retry": "Réessayer",
+  "noteEditor.conflictTitle": "Cette note a été modifiée ailleurs",
+  "noteEditor.conflictDescription": "Une version plus récente existe sur le serveur. Vos modifications n'ont pas été sauvegardées.",
+  "noteEditor.loadServerVersion": "Charger la version serveur",
+  "noteEditor.overwrite": "Écraser",
+  "noteEditor.restoreConflict": "Résolvez d'abord le conflit en chargeant la version serveur ou en l'écrasant",
+  "noteEditor.lastSaved": "Dernière sauvegarde : {date}",
+
+  "markdown.supported": "Markdown pris en charge",
+  "markdown.write": "Écrire",
+  "markdown.split": "Côte à côte",
+  "markdown.preview": "Aperçu",
+  "markdown.nothingToPreview": "Rien à afficher",
+
+  "history.open": "Historique",
+  "history.title": "Historique des versions",
+  "history.description": "Comparez deux versions de la note ou restaurez une version précédente",
+  "history.current": "Version actuelle",
+  "history.none": "Aucune version précédente pour le moment",
+  "history.restore": "Restaurer",
+  "history.restoreHint": "Restaurer une version l'enregistre comme nouvelle version ; la version actuelle reste dans l'historique.",
+
+  "search.title": "Recherche",
+  "search.subtitle": "Cherchez dans vos cours, notes et fichiers",
+  "search.placeholder": "Rechercher...",
+  "search.error": "Impossible d'effectuer la recherche",
+  "search.offline": "La recherche n'est pas disponible hors ligne",
+  "search.noResults": "Aucun résultat",
+  "search.noResultsDescription": "Essayez avec d'autres mots-clés",
+
+  "deleteCourse.title": "Supprimer « {title} » ?",
+  "deleteCourse.description": "Le cours et son contenu seront déplacés dans la corbeille, puis supprimés définitivement après 30 jours :",
+  "deleteCourse.previewError": "Impossible de calculer le contenu du cours.",
+  "deleteCourse.previewLoading": "Calcul du contenu...",
+  "deleteCourse.confirm": "Déplacer dans la corbeille",
+  "deleteCourse.trashed": "Cours déplacé dans la corbeille",
+  "deleteCourse.trashedDescription": "« {title} » peut être restauré pendant 30 jours",
+  "deleteCourse.error": "Impossible de supprimer le cours, veuillez réessayer",
+
+  "auth.tagline": "Organisez vos cours comme un pro",
+  "auth.welcome": "Bienvenue",
+  "auth.welcomeDescription": "Connectez-vous ou créez un compte pour commencer",
+  "auth.mfaTitle": "Vérification en deux étapes",
+  "auth.mfaDescription": "Saisissez le code généré par votre application d'authentification",
+  "auth.signInTab": "Connexion",
+  "auth.signUpTab": "Inscription",
+  "auth.signIn": "Se connecter",
+  "auth.signUp": "Créer un compte",
+  "auth.signUpSuccess": "Inscription réussie !",
+  "auth.signUpSuccessDescription": "Vérifiez votre email pour confirmer votre compte.",
+  "auth.forgotPassword": "Mot de passe oublié ?",
+  "auth.passwordless": "Connexion sans mot de passe",
+  "auth.fillAllFields": "Veuillez remplir tous les champs",
+  "auth.backToSignIn": "Retour à la connexion",
+  "auth.resetSent": "Si un compte existe pour {email}, vous allez recevoir un email avec un lien pour choisir un nouveau mot de passe.",
+  "auth.resetPrompt": "Saisissez votre email pour recevoir un lien de réinitialisation.",
+  "auth.sendLink": "Envoyer le lien",
+  "auth.otpSent": "Cliquez sur le lien envoyé à {email} ou saisissez le code à {length} chiffres qu'il contient.",
+  "auth.resendCode": "Renvoyer le code",
+  "auth.otpPrompt": "Recevez un lien de connexion et un code à usage unique par email.",
+  "auth.receiveCode": "Recevoir le code",
+  "auth.invalidCode": "Code invalide",
+  "auth.invalidCodeDescription": "Le code est incorrect ou a expiré",
+  "auth.mfaDisabled": "Double authentification désactivée",
+  "auth.mfaDisabledDescription": "Réactivez-la dans les paramètres avec votre nouvel appareil.",
+  "auth.invalidRecoveryCode": "Ce code de récupération n'est pas valide",
+  "auth.recoveryPrompt": "Saisissez l'un des codes de récupération obtenus lors de l'activation. La double authentification sera désactivée.",
+  "auth.useAuthenticator": "Utiliser l'application d'authentification",
+  "auth.verify": "Vérifier",
+  "auth.useRecoveryCode": "Utiliser un code de récupération",
+
+  "password.new": "Nouveau mot de passe",
+  "password.confirm": "Confirmer le mot de passe",
+  "password.tooShort": "Le mot de passe doit contenir au moins {length} caractères",
+  "password.mismatch": "Les mots de passe ne correspondent pas",
+  "password.updated": "Mot de passe modifié",
+  "password.updatedDescription": "Votre nouveau mot de passe est actif",
+
+  "reset.title": "Nouveau mot de passe",
+  "reset.description": "Choisissez le mot de passe que vous utiliserez désormais",
+  "reset.invalidLink": "Ce lien de réinitialisation est invalide ou a expiré",
+  "reset.requestNewLink": "Demander un nouveau lien",
+  "reset.submit": "Enregistrer le mot de passe",
+
+  "undo.action": "Annuler",
+  "undo.reverted": "Action annulée",
+  "undo.revertError": "Impossible d'annuler l'action",
+
+  "pwa.updateTitle": "Nouvelle version disponible",
+  "pwa.updateDescription": "Rechargez la page pour l'utiliser",
+  "pwa.reload": "Recharger",
+  "pwa.offlineReadyTitle": "Prêt pour le hors ligne",
+  "pwa.offlineReadyDescription": "StudiDash peut maintenant s'ouvrir sans connexion",
+
+  "errors.loadCourses": "Impossible de charger les cours",
+  "errors.loadCourse": "Impossible de charger les données du cours",
+  "errors.loadTrash": "Impossible de charger la corbeille",
+  "errors.loadFolders": "Impossible de charger les dossiers du cours",
+  "errors.loadFiles": "Impossible de charger les fichiers du cours",
+  "errors.findDuplicates": "Impossible de rechercher les doublons",
+  "errors.loadVersions": "Impossible de charger les versions du fichier",
+  "errors.loadNotes": "Impossible de charger les notes",
+  "errors.loadCourseNotes": "Impossible de charger les notes du cours",
+  "errors.loadData": "Impossible de charger les données",
+  "errors.loadNote": "Impossible de charger la note",
+  "errors.loadHistory": "Impossible de charger l'historique",
+
+  "trash.title": "Corbeille",
+  "trash.subtitle": "Les éléments supprimés sont conservés {days} jours avant d'être effacés définitivement",
+  "trash.empty": "La corbeille est vide",
+  "trash.emptyDescription": "Les cours, notes et fichiers supprimés apparaîtront ici",
+  "trash.deletedOn": "Supprimé le {date}",
+  "trash.daysLeft": {
+    one: "{count} jour restant",
+    other: "{count} jours restants",
+  },
+  "trash.restore": "Restaurer",
+  "trash.restored": "Élément restauré",
+  "trash.restoredDescription": "« {title} » a été restauré",
+  "trash.restoreError": "Impossible de restaurer l'élément",
+  "trash.deleteForever": "Supprimer définitivement",
+  "trash.deleteTitle": "Supprimer définitivement ?",
+  "trash.deleteDescription": "« {title} » sera effacé définitivement. Cette action est irréversible.",
+  "trash.deleteCourseDescription": "« {title} » sera effacé définitivement, avec toutes ses notes et tous ses fichiers. Cette action est irréversible.",
+  "trash.deleted": "Supprimé définitivement",
+  "trash.deletedDescription": "« {title} » a été supprimé",
+  "trash.deleteError": "Impossible de supprimer l'élément",
+
+  "settings.title": "Paramètres",
+  "settings.subtitle": "Gérez votre profil, votre compte et vos préférences",
+  "settings.profile": "Profil",
+  "settings.changeAvatar": "Changer l'avatar",
+  "settings.removeAvatar": "Supprimer",
+  "settings.displayName": "Nom d'affichage",
+  "settings.displayNamePlaceholder": "Ex: Marie Dupont",
+  "settings.saving": "Enregistrement...",
+  "settings.save": "Enregistrer",
+  "settings.profileUpdated": "Profil mis à jour",
+  "settings.profileUpdatedDescription": "Votre nom d'affichage a été enregistré",
+  "settings.profileError": "Impossible de mettre à jour le profil",
+  "settings.avatarNotImage": "L'avatar doit être une image",
+  "settings.avatarTooLarge": "L'image ne doit pas dépasser {size}",
+  "settings.avatarUpdated": "Avatar mis à jour",
+  "settings.avatarUpdatedDescription": "Votre nouvel avatar a été enregistré",
+  "settings.avatarUploadError": "Impossible d'uploader l'avatar",
+  "settings.avatarRemoveError": "Impossible de supprimer l'avatar",
+  "settings.email": "Adresse email",
+  "settings.currentEmail": "Adresse actuelle : {email}",
+  "settings.newEmail": "Nouvelle adresse email",
+  "settings.emailPlaceholder": "votre@email.com",
+  "settings.changeEmail": "Modifier",
+  "settings.emailSent": "Confirmation envoyée",
+  "settings.emailSentDescription": "Cliquez sur le lien reçu par email pour valider votre nouvelle adresse.",
+  "settings.password": "Mot de passe",
+  "settings.changePassword": "Changer le mot de passe",
+  "settings.preferences": "Préférences",
+  "settings.defaultColor": "Couleur par défaut des nouveaux cours",
+  "settings.preferencesSaved": "Préférences enregistrées",
+  "settings.preferencesSavedDescription": "Vos préférences ont été mises à jour",
+  "settings.preferencesError": "Impossible d'enregistrer les préférences",
+  "settings.dangerZone": "Zone de danger",
+  "settings.dangerZoneDescription": "La suppression du compte efface définitivement tous vos cours, notes et fichiers.",
+  "settings.deleteAccount": "Supprimer mon compte",
+  "settings.deleteAccountTitle": "Supprimer votre compte ?",
+  "settings.deleteAccountDescription": "Toutes vos données seront supprimées immédiatement, sans passer par la corbeille. Cette action est irréversible. Tapez {word} pour confirmer.",
+  "settings.deleteAccountWord": "SUPPRIMER",
+  "settings.deleteAccountConfirm": "Supprimer définitivement",
+  "settings.accountDeleted": "Compte supprimé",
+  "settings.accountDeletedDescription": "Votre compte et toutes vos données ont été supprimés",
+  "settings.deleteAccountError": "Impossible de supprimer le compte, veuillez réessayer",
+
+  "mfa.title": "Double authentification",
+  "mfa.enabled": "Activée",
+  "mfa.description": "Protégez votre compte avec un code à usage unique généré par une application d'authentification (Google Authenticator, 1Password, Authy...).",
+  "mfa.authenticator": "Authentificateur",
+  "mfa.authenticatorName": "Authentificateur {date}",
+  "mfa.addedOn": "Ajouté le {date}",
+  "mfa.removeTitle": "Supprimer cet authentificateur ?",
+  "mfa.removeLastDescription": "La double authentification sera désactivée et vos codes de récupération invalidés.",
+  "mfa.removeDescription": "Il ne pourra plus être utilisé pour vous connecter.",
+  "mfa.remove": "Supprimer",
+  "mfa.scanStep": "1. Scannez ce QR code avec votre application d'authentification.",
+  "mfa.qrCode": "QR code",
+  "mfa.manualKey": "Ou saisissez cette clé manuellement",
+  "mfa.codeStep": "2. Saisissez le code à 6 chiffres affiché par l'application.",
+  "mfa.verify": "Vérifier",
+  "mfa.add": "Ajouter un authentificateur",
+  "mfa.enable": "Activer la double authentification",
+  "mfa.regenerateCodes": "Générer de nouveaux codes de récupération",
+  "mfa.recoveryCodes": "Codes de récupération",
+  "mfa.recoveryCodesDescription": "Chaque code permet de vous connecter si vous perdez votre téléphone, ce qui désactive la double authentification. Ils ne seront plus affichés : conservez-les maintenant.",
+  "mfa.copy": "Copier",
+  "mfa.download": "Télécharger",
+  "mfa.codesKept": "J'ai conservé mes codes",
+  "mfa.codesFilename": "studidash-codes-de-recuperation.txt",
+  "mfa.codesCopied": "Codes copiés",
+  "mfa.codesCopiedDescription": "Conservez-les dans un endroit sûr",
+  "mfa.enabledToast": "Double authentification activée",
+  "mfa.enabledToastDescription": "Un code vous sera demandé à chaque connexion",
+  "mfa.invalidCodeDescription": "Vérifiez l'heure de votre téléphone et réessayez",
+  "mfa.removed": "Authentificateur supprimé",
+  "mfa.removedLastDescription": "La double authentification est désactivée",
+  "mfa.removedDescription": "L'authentificateur a été retiré de votre compte",
+  "mfa.loadError": "Impossible de charger la double authentification",
+  "mfa.enrollError": "Impossible de démarrer l'activation",
+  "mfa.codesError": "Impossible de générer les codes de récupération",
+  "mfa.removeError": "Impossible de supprimer l'authentificateur",
+}
+
+export type MessageKey = keyof typeof fr
+
+export type Message = string | { one: string; other: string }
+
+export type Messages = Record<MessageKey, Message>
+
+export default fr
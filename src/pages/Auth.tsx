@@ -1,38 +1,27 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { Navigate, useLocation, type Location } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import OtpCodeInput from "@/components/OtpCodeInput";
+import LocaleSwitcher from "@/components/LocaleSwitcher";
 import { toast } from "@/hooks/use-toast";
-import { Loader2, GraduationCap } from "lucide-react";
-import { Session } from "@supabase/supabase-js";
+import { useAuth } from "@/hooks/use-auth";
+import { useI18n } from "@/hooks/use-i18n";
+import { ArrowLeft, Loader2, GraduationCap, Mail } from "lucide-react";
 
-export default function Auth() {
-  const [loading, setLoading] = useState(false);
-  const [session, setSession] = useState<Session | null>(null);
-  const navigate = useNavigate();
-
-  useEffect(() => {
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      (event, session) => {
-        setSession(session);
-        if (session) {
-          navigate('/');
-        }
-      }
-    );
+type SignInMode = 'password' | 'forgot' | 'otp';
 
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setSession(session);
-      if (session) {
-        navigate('/');
-      }
-    });
+const OTP_LENGTH = 6;
 
-    return () => subscription.unsubscribe();
-  }, [navigate]);
+export default function Auth() {
+  const [loading, setLoading] = useState(false);
+  const [signInMode, setSignInMode] = useState<SignInMode>('password');
+  const { session, mfaRequired } = useAuth();
+  const { t } = useI18n();
+  const location = useLocation();
 
   const signUp = async (email: string, password: string) => {
     setLoading(true);
@@ -49,13 +38,13 @@ export default function Auth() {
     if (error) {
       toast({
         variant: "destructive",
-        title: "Erreur",
+        title: t('common.error'),
         description: error.message,
       });
     } else {
       toast({
-        title: "Inscription réussie !",
-        description: "Vérifiez votre email pour confirmer votre compte.",
+        title: t('auth.signUpSuccess'),
+        description: t('auth.signUpSuccessDescription'),
       });
     }
     setLoading(false);
@@ -71,15 +60,26 @@ export default function Auth() {
     if (error) {
       toast({
         variant: "destructive",
-        title: "Erreur",
+        title: t('common.error'),
         description: error.message,
       });
     }
     setLoading(false);
   };
 
+  // Back to the page that required authentication, if any.
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}${from.hash}` : '/';
+
+  if (session && !mfaRequired) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
   return (
     <div className="min-h-screen bg-gradient-bg flex items-center justify-center p-4">
+      <div className="absolute top-4 right-4">
+        <LocaleSwitcher />
+      </div>
       <div className="w-full max-w-md">
         <div className="text-center mb-8">
           <div className="flex justify-center mb-4">
@@ -91,40 +91,73 @@ export default function Auth() {
             StudiDash
           </h1>
           <p className="text-muted-foreground mt-2">
-            Organisez vos cours comme un pro
+            {t('auth.tagline')}
           </p>
         </div>
 
         <Card className="shadow-card border-0">
           <CardHeader>
-            <CardTitle>Bienvenue</CardTitle>
+            <CardTitle>{mfaRequired ? t('auth.mfaTitle') : t('auth.welcome')}</CardTitle>
             <CardDescription>
-              Connectez-vous ou créez un compte pour commencer
+              {mfaRequired
+                ? t('auth.mfaDescription')
+                : t('auth.welcomeDescription')
+              }
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <Tabs defaultValue="signin" className="w-full">
-              <TabsList className="grid w-full grid-cols-2">
-                <TabsTrigger value="signin">Connexion</TabsTrigger>
-                <TabsTrigger value="signup">Inscription</TabsTrigger>
-              </TabsList>
+            {mfaRequired ? (
+              <MfaChallenge onCancel={() => supabase.auth.signOut()} />
+            ) : (
+              <Tabs defaultValue="signin" className="w-full">
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="signin">{t('auth.signInTab')}</TabsTrigger>
+                  <TabsTrigger value="signup">{t('auth.signUpTab')}</TabsTrigger>
+                </TabsList>
               
-              <TabsContent value="signin">
-                <AuthForm 
-                  onSubmit={signIn} 
-                  loading={loading} 
-                  buttonText="Se connecter" 
-                />
-              </TabsContent>
+                <TabsContent value="signin">
+                  {signInMode === 'password' && (
+                    <>
+                      <AuthForm 
+                        onSubmit={signIn} 
+                        loading={loading} 
+                        buttonText={t('auth.signIn')}
+                      />
+                      <div className="flex flex-wrap justify-between mt-2">
+                        <Button
+                          variant="link"
+                          className="px-0 text-muted-foreground"
+                          onClick={() => setSignInMode('forgot')}
+                        >
+                          {t('auth.forgotPassword')}
+                        </Button>
+                        <Button
+                          variant="link"
+                          className="px-0 text-muted-foreground"
+                          onClick={() => setSignInMode('otp')}
+                        >
+                          {t('auth.passwordless')}
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                  {signInMode === 'forgot' && (
+                    <ForgotPasswordForm onBack={() => setSignInMode('password')} />
+                  )}
+                  {signInMode === 'otp' && (
+                    <OtpSignInForm onBack={() => setSignInMode('password')} />
+                  )}
+                </TabsContent>
               
-              <TabsContent value="signup">
-                <AuthForm 
-                  onSubmit={signUp} 
-                  loading={loading} 
-                  buttonText="Créer un compte" 
-                />
-              </TabsContent>
-            </Tabs>
+                <TabsContent value="signup">
+                  <AuthForm 
+                    onSubmit={signUp} 
+                    loading={loading} 
+                    buttonText={t('auth.signUp')}
+                  />
+                </TabsContent>
+              </Tabs>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -143,14 +176,15 @@ function AuthForm({
 }) {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  const { t } = useI18n();
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!email || !password) {
       toast({
         variant: "destructive",
-        title: "Erreur",
-        description: "Veuillez remplir tous les champs",
+        title: t('common.error'),
+        description: t('auth.fillAllFields'),
       });
       return;
     }
@@ -162,7 +196,7 @@ function AuthForm({
       <div className="space-y-2">
         <Input
           type="email"
-          placeholder="Email"
+          placeholder={t('common.email')}
           value={email}
           onChange={(e) => setEmail(e.target.value)}
           required
@@ -171,7 +205,7 @@ function AuthForm({
       <div className="space-y-2">
         <Input
           type="password"
-          placeholder="Mot de passe"
+          placeholder={t('common.password')}
           value={password}
           onChange={(e) => setPassword(e.target.value)}
           required
@@ -187,4 +221,334 @@ function AuthForm({
       </Button>
     </form>
   );
-}
\ No newline at end of file
+}
+
+function BackButton({ onClick }: { onClick: () => void }) {
+  const { t } = useI18n();
+
+  return (
+    <Button
+      type="button"
+      variant="ghost"
+      size="sm"
+      className="px-0 text-muted-foreground"
+      onClick={onClick}
+    >
+      <ArrowLeft className="mr-2 h-4 w-4" />
+      {t('auth.backToSignIn')}
+    </Button>
+  );
+}
+
+function ForgotPasswordForm({ onBack }: { onBack: () => void }) {
+  const [email, setEmail] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+  const { t } = useI18n();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email) return;
+
+    setLoading(true);
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: `${window.location.origin}/auth/reset`,
+    });
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: error.message,
+      });
+    } else {
+      setSent(true);
+    }
+    setLoading(false);
+  };
+
+  if (sent) {
+    return (
+      <div className="space-y-4 text-center">
+        <Mail className="h-12 w-12 mx-auto text-primary" />
+        <p className="text-sm text-muted-foreground">
+          {t('auth.resetSent', { email })}
+        </p>
+        <BackButton onClick={onBack} />
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <BackButton onClick={onBack} />
+      <p className="text-sm text-muted-foreground">
+        {t('auth.resetPrompt')}
+      </p>
+      <Input
+        type="email"
+        placeholder={t('common.email')}
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        required
+      />
+      <Button 
+        type="submit" 
+        className="w-full bg-gradient-primary hover:opacity-90 shadow-glow" 
+        disabled={loading}
+      >
+        {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {t('auth.sendLink')}
+      </Button>
+    </form>
+  );
+}
+
+// The email sent by signInWithOtp contains both a magic link and a one-time
+// code, so the user can finish signing in from either.
+function OtpSignInForm({ onBack }: { onBack: () => void }) {
+  const [email, setEmail] = useState("");
+  const [code, setCode] = useState("");
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { t } = useI18n();
+
+  const sendCode = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!email) return;
+
+    setLoading(true);
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        shouldCreateUser: false,
+        emailRedirectTo: `${window.location.origin}/`,
+      },
+    });
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: error.message,
+      });
+    } else {
+      setSentTo(email);
+      setCode("");
+    }
+    setLoading(false);
+  };
+
+  const verifyCode = async (token: string) => {
+    if (!sentTo || token.length !== OTP_LENGTH) return;
+
+    setLoading(true);
+    // On success the new session makes the page redirect.
+    const { error } = await supabase.auth.verifyOtp({
+      email: sentTo,
+      token,
+      type: 'email',
+    });
+
+    if (error) {
+      setCode("");
+      toast({
+        variant: "destructive",
+        title: t('auth.invalidCode'),
+        description: t('auth.invalidCodeDescription'),
+      });
+    }
+    setLoading(false);
+  };
+
+  if (sentTo) {
+    return (
+      <div className="space-y-4">
+        <BackButton onClick={onBack} />
+        <p className="text-sm text-muted-foreground">
+          {t('auth.otpSent', { email: sentTo, length: OTP_LENGTH })}
+        </p>
+        <OtpCodeInput
+          length={OTP_LENGTH}
+          value={code}
+          onChange={setCode}
+          onComplete={verifyCode}
+          disabled={loading}
+        />
+        <Button 
+          className="w-full bg-gradient-primary hover:opacity-90 shadow-glow" 
+          disabled={loading || code.length !== OTP_LENGTH}
+          onClick={() => verifyCode(code)}
+        >
+          {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t('auth.signIn')}
+        </Button>
+        <Button
+          variant="link"
+          className="w-full text-muted-foreground"
+          disabled={loading}
+          onClick={() => sendCode()}
+        >
+          {t('auth.resendCode')}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={sendCode} className="space-y-4">
+      <BackButton onClick={onBack} />
+      <p className="text-sm text-muted-foreground">
+        {t('auth.otpPrompt')}
+      </p>
+      <Input
+        type="email"
+        placeholder={t('common.email')}
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        required
+      />
+      <Button 
+        type="submit" 
+        className="w-full bg-gradient-primary hover:opacity-90 shadow-glow" 
+        disabled={loading}
+      >
+        {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {t('auth.receiveCode')}
+      </Button>
+    </form>
+  );
+}
+
+function MfaChallenge({ onCancel }: { onCancel: () => void }) {
+  const [factorId, setFactorId] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const { t } = useI18n();
+
+  useEffect(() => {
+    supabase.auth.mfa.listFactors().then(({ data }) => {
+      setFactorId(data?.totp[0]?.id || null);
+    });
+  }, []);
+
+  const verifyCode = async (token: string) => {
+    if (!factorId || token.length !== OTP_LENGTH) return;
+
+    setLoading(true);
+    // On success the session is upgraded to aal2 and the page redirects.
+    const { error } = await supabase.auth.mfa.challengeAndVerify({
+      factorId,
+      code: token,
+    });
+
+    if (error) {
+      setCode("");
+      toast({
+        variant: "destructive",
+        title: t('auth.invalidCode'),
+        description: t('auth.invalidCodeDescription'),
+      });
+    }
+    setLoading(false);
+  };
+
+  const redeemRecoveryCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!recoveryCode.trim()) return;
+
+    setLoading(true);
+    try {
+      const { error } = await supabase.functions.invoke('mfa-recovery', {
+        body: { code: recoveryCode.trim() },
+      });
+      if (error) throw error;
+
+      toast({
+        title: t('auth.mfaDisabled'),
+        description: t('auth.mfaDisabledDescription'),
+      });
+      // Without factors the refreshed session no longer requires aal2.
+      await supabase.auth.refreshSession();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: t('auth.invalidCode'),
+        description: t('auth.invalidRecoveryCode'),
+      });
+      setLoading(false);
+    }
+  };
+
+  if (useRecoveryCode) {
+    return (
+      <form onSubmit={redeemRecoveryCode} className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {t('auth.recoveryPrompt')}
+        </p>
+        <Input
+          placeholder="xxxxx-xxxxx"
+          value={recoveryCode}
+          onChange={(e) => setRecoveryCode(e.target.value)}
+          className="font-mono"
+          autoFocus
+          required
+        />
+        <Button 
+          type="submit" 
+          className="w-full bg-gradient-primary hover:opacity-90 shadow-glow" 
+          disabled={loading}
+        >
+          {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t('auth.signIn')}
+        </Button>
+        <Button
+          type="button"
+          variant="link"
+          className="w-full text-muted-foreground"
+          onClick={() => setUseRecoveryCode(false)}
+        >
+          {t('auth.useAuthenticator')}
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <OtpCodeInput
+        length={OTP_LENGTH}
+        value={code}
+        onChange={setCode}
+        onComplete={verifyCode}
+        disabled={loading || !factorId}
+      />
+      <Button 
+        className="w-full bg-gradient-primary hover:opacity-90 shadow-glow" 
+        disabled={loading || !factorId || code.length !== OTP_LENGTH}
+        onClick={() => verifyCode(code)}
+      >
+        {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {t('auth.verify')}
+      </Button>
+      <div className="flex flex-wrap justify-between">
+        <Button
+          variant="link"
+          className="px-0 text-muted-foreground"
+          onClick={() => setUseRecoveryCode(true)}
+        >
+          {t('auth.useRecoveryCode')}
+        </Button>
+        <Button
+          variant="link"
+          className="px-0 text-muted-foreground"
+          onClick={onCancel}
+        >
+          {t('common.cancel')}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useI18n } from "@/hooks/use-i18n";
+import { Loader2, GraduationCap } from "lucide-react";
+
+const MIN_PASSWORD_LENGTH = 6;
+
+type RecoveryState = 'checking' | 'ready' | 'invalid';
+
+export default function AuthReset() {
+  const { t } = useI18n();
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const { session, loading: restoring } = useAuth();
+  const navigate = useNavigate();
+
+  // The client exchanges the token from the recovery link for a session
+  // while restoring it.
+  const state: RecoveryState = restoring ? 'checking' : session ? 'ready' : 'invalid';
+
+  const updatePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('password.tooShort', { length: MIN_PASSWORD_LENGTH }),
+      });
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('password.mismatch'),
+      });
+      return;
+    }
+
+    setLoading(true);
+    const { error } = await supabase.auth.updateUser({ password });
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: error.message,
+      });
+      setLoading(false);
+      return;
+    }
+
+    toast({
+      title: t('password.updated'),
+      description: t('password.updatedDescription'),
+    });
+    navigate('/');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-bg flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="flex justify-center mb-4">
+            <div className="bg-gradient-primary p-3 rounded-2xl shadow-glow">
+              <GraduationCap className="h-8 w-8 text-white" />
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+            StudiDash
+          </h1>
+        </div>
+
+        <Card className="shadow-card border-0">
+          <CardHeader>
+            <CardTitle>{t('reset.title')}</CardTitle>
+            <CardDescription>
+              {state === 'invalid'
+                ? t('reset.invalidLink')
+                : t('reset.description')
+              }
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {state === 'checking' && (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            )}
+
+            {state === 'invalid' && (
+              <Button
+                className="w-full bg-gradient-primary hover:opacity-90 shadow-glow"
+                onClick={() => navigate('/auth')}
+              >
+                {t('reset.requestNewLink')}
+              </Button>
+            )}
+
+            {state === 'ready' && (
+              <form onSubmit={updatePassword} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="password">{t('password.new')}</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirm-password">{t('password.confirm')}</Label>
+                  <Input
+                    id="confirm-password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    required
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  className="w-full bg-gradient-primary hover:opacity-90 shadow-glow"
+                  disabled={loading}
+                >
+                  {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {t('reset.submit')}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,153 +1,154 @@
-import { useState, useEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
+import { useState, useEffect, useRef } from "react";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { 
   ArrowLeft, 
   Edit,
   Save,
   X,
   FileText,
-  Upload,
-  Download,
   Trash2,
   Plus,
-  File,
-  Clock
+  Clock,
+  Copy
 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useI18n } from "@/hooks/use-i18n";
 import { Label } from "@/components/ui/label";
-
-interface Course {
-  id: string;
-  title: string;
-  description: string;
-  color: string;
-  status: string;
-  created_at: string;
-  updated_at: string;
-}
-
-interface CourseNote {
-  id: string;
-  title: string;
-  content: string;
-  created_at: string;
-  updated_at: string;
-}
-
-interface CourseFile {
-  id: string;
-  filename: string;
-  file_path: string;
-  file_size: number;
-  mime_type: string;
-  created_at: string;
-}
+import MarkdownEditor from "@/components/MarkdownEditor";
+import MarkdownRenderer from "@/components/MarkdownRenderer";
+import { addRecentItem } from "@/lib/recent";
+import { downloadFromStorage } from "@/lib/storage-download";
+import { useCourse, useUpdateCourse } from "@/hooks/use-courses";
+import { useCourseNotes, useCreateNote } from "@/hooks/use-course-notes";
+import { useCourseFiles, type CourseFile } from "@/hooks/use-course-files";
+import { useCourseFolders } from "@/hooks/use-course-folders";
+import { useUploadQueue } from "@/hooks/use-upload-queue";
+import { useMoveToTrash, useRestoreFromTrash } from "@/hooks/use-trash";
+import { execute } from "@/lib/undo";
+import DeleteCourseDialog from "@/components/DeleteCourseDialog";
+import FileDropZone from "@/components/FileDropZone";
+import UploadList from "@/components/UploadList";
+import FilePreviewDialog from "@/components/FilePreviewDialog";
+import CourseFileBrowser from "@/components/CourseFileBrowser";
+import FileDuplicatesDialog from "@/components/FileDuplicatesDialog";
 
 export default function CourseDetail() {
   const { id } = useParams();
   const navigate = useNavigate();
-  const [course, setCourse] = useState<Course | null>(null);
-  const [notes, setNotes] = useState<CourseNote[]>([]);
-  const [files, setFiles] = useState<CourseFile[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user } = useAuth();
+  const { t, formatDate } = useI18n();
+  const { data: course, isLoading: loading, isFetching } = useCourse(id);
+  const { data: notes = [] } = useCourseNotes(id);
+  const { data: files = [] } = useCourseFiles(id);
+  const { data: folders = [], isSuccess: foldersLoaded } = useCourseFolders(id);
+  const updateCourseMutation = useUpdateCourse();
+  const createNoteMutation = useCreateNote();
+  const uploads = useUploadQueue(id);
+  const moveToTrash = useMoveToTrash();
+  const restoreFromTrash = useRestoreFromTrash();
   const [editing, setEditing] = useState(false);
   const [editForm, setEditForm] = useState({ title: '', description: '' });
   const [newNote, setNewNote] = useState({ title: '', content: '' });
   const [showNewNote, setShowNewNote] = useState(false);
-  const [uploading, setUploading] = useState(false);
-
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [showUpload, setShowUpload] = useState(false);
+
+  // The open folder is kept in the URL, so it survives a reload and the
+  // back button leaves it. A folder deleted meanwhile falls back to the root.
+  const folderParam = searchParams.get('folder');
+  const folderId = foldersLoaded && !folders.some(folder => folder.id === folderParam)
+    ? null
+    : folderParam;
+  const folderFiles = files.filter(file => file.folder_id === folderId);
+
+  // A course trashed in the meantime may still be cached as missing, so
+  // wait for the refetch before giving up on it.
   useEffect(() => {
-    if (id) {
-      fetchCourseData();
-    }
-  }, [id]);
-
-  const fetchCourseData = async () => {
-    try {
-      // Fetch course
-      const { data: courseData, error: courseError } = await supabase
-        .from('courses')
-        .select('*')
-        .eq('id', id)
-        .maybeSingle();
-
-      if (courseError) throw courseError;
-      if (!courseData) {
-        toast({
-          variant: "destructive",
-          title: "Erreur",
-          description: "Cours introuvable",
-        });
-        navigate('/courses');
-        return;
-      }
-
-      setCourse(courseData);
-      setEditForm({ title: courseData.title, description: courseData.description || '' });
-
-      // Fetch notes
-      const { data: notesData, error: notesError } = await supabase
-        .from('course_notes')
-        .select('*')
-        .eq('course_id', id)
-        .order('updated_at', { ascending: false });
-
-      if (notesError) throw notesError;
-      setNotes(notesData || []);
-
-      // Fetch files
-      const { data: filesData, error: filesError } = await supabase
-        .from('course_files')
-        .select('*')
-        .eq('course_id', id)
-        .order('created_at', { ascending: false });
-
-      if (filesError) throw filesError;
-      setFiles(filesData || []);
-
-    } catch (error) {
+    if (course === null && !isFetching) {
       toast({
         variant: "destructive",
-        title: "Erreur",
-        description: "Impossible de charger les données du cours",
+        title: t('common.error'),
+        description: t('courseDetail.notFound'),
       });
-    } finally {
-      setLoading(false);
+      navigate('/courses');
     }
-  };
+  }, [course, isFetching, navigate, t]);
+
+  // Runs once per course rather than on every refetch, so an edit in
+  // progress is not overwritten.
+  const openedCourseRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!course || openedCourseRef.current === course.id) return;
+    openedCourseRef.current = course.id;
+
+    addRecentItem({
+      kind: 'course',
+      id: course.id,
+      title: course.title,
+      href: `/courses/${course.id}`,
+      color: course.color
+    });
+    setEditForm({ title: course.title, description: course.description || '' });
+  }, [course]);
+
+  // Shortcuts from the command palette: open the note form or the upload
+  // dialog. Browsers only open a file picker from a user gesture, so the
+  // dialog focuses its button instead of opening the picker itself.
+  useEffect(() => {
+    if (!course) return;
+
+    if (searchParams.get('newNote')) {
+      setShowNewNote(true);
+    }
+    if (searchParams.get('upload')) {
+      setShowUpload(true);
+    }
+    if (searchParams.get('newNote') || searchParams.get('upload')) {
+      const next = new URLSearchParams(searchParams);
+      next.delete('newNote');
+      next.delete('upload');
+      setSearchParams(next, { replace: true });
+    }
+  }, [course, searchParams, setSearchParams]);
 
   const updateCourse = async () => {
     if (!course) return;
 
     try {
-      const { error } = await supabase
-        .from('courses')
-        .update({
+      await updateCourseMutation.mutateAsync({
+        id: course.id,
+        changes: {
           title: editForm.title,
           description: editForm.description
-        })
-        .eq('id', course.id);
-
-      if (error) throw error;
+        }
+      });
 
-      setCourse({ ...course, title: editForm.title, description: editForm.description });
       setEditing(false);
       toast({
-        title: "Cours mis à jour",
-        description: "Les modifications ont été sauvegardées",
+        title: t('courseDetail.updated'),
+        description: t('courseDetail.updatedDescription'),
       });
     } catch (error) {
       toast({
         variant: "destructive",
-        title: "Erreur",
-        description: "Impossible de sauvegarder les modifications",
+        title: t('common.error'),
+        description: t('courseDetail.updateError'),
       });
     }
   };
@@ -156,167 +157,100 @@ export default function CourseDetail() {
     if (!newNote.title.trim() || !course) return;
 
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session?.user) throw new Error("Non authentifié");
-
-      const { data, error } = await supabase
-        .from('course_notes')
-        .insert({
-          course_id: course.id,
-          user_id: session.user.id,
-          title: newNote.title,
-          content: newNote.content
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      setNotes([data, ...notes]);
+      await createNoteMutation.mutateAsync({
+        course_id: course.id,
+        user_id: user.id,
+        title: newNote.title,
+        content: newNote.content
+      });
+
       setNewNote({ title: '', content: '' });
       setShowNewNote(false);
       toast({
-        title: "Note créée",
-        description: "Votre note a été ajoutée avec succès",
+        title: t('courseDetail.noteCreated'),
+        description: t('courseDetail.noteCreatedDescription'),
       });
     } catch (error) {
       toast({
         variant: "destructive",
-        title: "Erreur",
-        description: "Impossible de créer la note",
+        title: t('common.error'),
+        description: t('courseDetail.noteCreateError'),
       });
     }
   };
 
   const deleteNote = async (noteId: string) => {
     try {
-      const { error } = await supabase
-        .from('course_notes')
-        .delete()
-        .eq('id', noteId);
-
-      if (error) throw error;
-
-      setNotes(notes.filter(note => note.id !== noteId));
-      toast({
-        title: "Note supprimée",
-        description: "La note a été supprimée avec succès",
+      await execute({
+        title: t('notes.trashed'),
+        description: t('notes.trashedDescription'),
+        run: async () => {
+          await moveToTrash.mutateAsync({ table: 'course_notes', id: noteId });
+        },
+        undo: async () => {
+          await restoreFromTrash.mutateAsync({ table: 'course_notes', id: noteId });
+        },
       });
     } catch (error) {
       toast({
         variant: "destructive",
-        title: "Erreur",
-        description: "Impossible de supprimer la note",
+        title: t('common.error'),
+        description: t('notes.deleteError'),
       });
     }
   };
 
-  const uploadFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file || !course) return;
-
-    setUploading(true);
+  // The open folder is kept, so coming back to the files tab shows it.
+  const selectTab = (tab: string) => {
+    const next = new URLSearchParams(searchParams);
+    next.set('tab', tab);
+    setSearchParams(next, { replace: true });
+  };
 
-    try {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session?.user) throw new Error("Non authentifié");
-
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${session.user.id}/${course.id}/${Date.now()}.${fileExt}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('course-files')
-        .upload(fileName, file);
-
-      if (uploadError) throw uploadError;
-
-      const { data, error: dbError } = await supabase
-        .from('course_files')
-        .insert({
-          course_id: course.id,
-          user_id: session.user.id,
-          filename: file.name,
-          file_path: fileName,
-          file_size: file.size,
-          mime_type: file.type
-        })
-        .select()
-        .single();
-
-      if (dbError) throw dbError;
-
-      setFiles([data, ...files]);
-      toast({
-        title: "Fichier uploadé",
-        description: "Votre fichier a été ajouté avec succès",
-      });
-    } catch (error) {
-      toast({
-        variant: "destructive",
-        title: "Erreur",
-        description: "Impossible d'uploader le fichier",
-      });
-    } finally {
-      setUploading(false);
+  const openFolder = (folder: string | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (folder) {
+      next.set('folder', folder);
+    } else {
+      next.delete('folder');
     }
+    setSearchParams(next);
   };
 
   const downloadFile = async (file: CourseFile) => {
     try {
-      const { data, error } = await supabase.storage
-        .from('course-files')
-        .download(file.file_path);
-
-      if (error) throw error;
-
-      const url = URL.createObjectURL(data);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = file.filename;
-      a.click();
-      URL.revokeObjectURL(url);
+      await downloadFromStorage('course-files', file.file_path, file.filename);
     } catch (error) {
       toast({
         variant: "destructive",
-        title: "Erreur",
-        description: "Impossible de télécharger le fichier",
+        title: t('common.error'),
+        description: t('courseDetail.fileDownloadError'),
       });
     }
   };
 
   const deleteFile = async (file: CourseFile) => {
     try {
-      await supabase.storage.from('course-files').remove([file.file_path]);
-      
-      const { error } = await supabase
-        .from('course_files')
-        .delete()
-        .eq('id', file.id);
-
-      if (error) throw error;
-
-      setFiles(files.filter(f => f.id !== file.id));
-      toast({
-        title: "Fichier supprimé",
-        description: "Le fichier a été supprimé avec succès",
+      // The stored object is kept until the trash is purged.
+      await execute({
+        title: t('courseDetail.fileTrashed'),
+        description: t('courseDetail.fileTrashedDescription'),
+        run: async () => {
+          await moveToTrash.mutateAsync({ table: 'course_files', id: file.id });
+        },
+        undo: async () => {
+          await restoreFromTrash.mutateAsync({ table: 'course_files', id: file.id });
+        },
       });
     } catch (error) {
       toast({
         variant: "destructive",
-        title: "Erreur",
-        description: "Impossible de supprimer le fichier",
+        title: t('common.error'),
+        description: t('courseDetail.fileDeleteError'),
       });
     }
   };
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return '0 B';
-    const k = 1024;
-    const sizes = ['B', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  };
-
   if (loading) {
     return (
       <div className="space-y-6">
@@ -331,7 +265,7 @@ export default function CourseDetail() {
   if (!course) {
     return (
       <div className="text-center">
-        <h2 className="text-2xl font-bold">Cours introuvable</h2>
+        <h2 className="text-2xl font-bold">{t('courseDetail.notFound')}</h2>
       </div>
     );
   }
@@ -353,19 +287,19 @@ export default function CourseDetail() {
               <Input
                 value={editForm.title}
                 onChange={(e) => setEditForm({ ...editForm, title: e.target.value })}
-                placeholder="Titre du cours"
+                placeholder={t('courseDetail.titlePlaceholder')}
                 className="text-2xl font-bold"
               />
               <Textarea
                 value={editForm.description}
                 onChange={(e) => setEditForm({ ...editForm, description: e.target.value })}
-                placeholder="Description du cours"
+                placeholder={t('courseDetail.descriptionPlaceholder')}
                 rows={2}
               />
               <div className="flex space-x-2">
                 <Button onClick={updateCourse} size="sm">
                   <Save className="h-4 w-4 mr-2" />
-                  Sauvegarder
+                  {t('common.save')}
                 </Button>
                 <Button 
                   variant="outline" 
@@ -373,7 +307,7 @@ export default function CourseDetail() {
                   size="sm"
                 >
                   <X className="h-4 w-4 mr-2" />
-                  Annuler
+                  {t('common.cancel')}
                 </Button>
               </div>
             </div>
@@ -394,9 +328,22 @@ export default function CourseDetail() {
                 >
                   <Edit className="h-4 w-4" />
                 </Button>
+                <DeleteCourseDialog
+                  course={course}
+                  onDeleted={() => navigate('/courses')}
+                  onRestored={() => navigate(`/courses/${course.id}`)}
+                >
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="hover:bg-destructive hover:text-destructive-foreground"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </DeleteCourseDialog>
               </div>
               <p className="text-muted-foreground mt-2">
-                {course.description || "Aucune description"}
+                {course.description || t('common.noDescription')}
               </p>
             </div>
           )}
@@ -404,47 +351,51 @@ export default function CourseDetail() {
       </div>
 
       {/* Tabs */}
-      <Tabs defaultValue="notes" className="space-y-6">
+      <Tabs
+        value={searchParams.get('tab') || 'notes'}
+        onValueChange={selectTab}
+        className="space-y-6"
+      >
         <TabsList className="grid w-full grid-cols-2">
-          <TabsTrigger value="notes">Notes</TabsTrigger>
-          <TabsTrigger value="files">Fichiers</TabsTrigger>
+          <TabsTrigger value="notes">{t('courseDetail.tabs.notes')}</TabsTrigger>
+          <TabsTrigger value="files">{t('courseDetail.tabs.files')}</TabsTrigger>
         </TabsList>
 
         {/* Notes Tab */}
         <TabsContent value="notes" className="space-y-6">
           <div className="flex justify-between items-center">
-            <h2 className="text-2xl font-semibold">Notes du cours</h2>
+            <h2 className="text-2xl font-semibold">{t('courseDetail.notesTitle')}</h2>
             <Button 
               onClick={() => setShowNewNote(true)}
               className="bg-gradient-primary hover:opacity-90 shadow-glow"
             >
               <Plus className="h-4 w-4 mr-2" />
-              Nouvelle note
+              {t('courseDetail.newNote')}
             </Button>
           </div>
 
           {showNewNote && (
             <Card className="shadow-card border-0">
               <CardHeader>
-                <CardTitle>Créer une nouvelle note</CardTitle>
+                <CardTitle>{t('courseDetail.createNoteTitle')}</CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
                 <div>
-                  <Label htmlFor="note-title">Titre de la note</Label>
+                  <Label htmlFor="note-title">{t('courseDetail.noteTitle')}</Label>
                   <Input
                     id="note-title"
-                    placeholder="Titre de la note..."
+                    placeholder={t('courseDetail.noteTitlePlaceholder')}
                     value={newNote.title}
                     onChange={(e) => setNewNote({ ...newNote, title: e.target.value })}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="note-content">Contenu</Label>
-                  <Textarea
+                  <Label htmlFor="note-content">{t('courseDetail.noteContent')}</Label>
+                  <MarkdownEditor
                     id="note-content"
-                    placeholder="Écrivez votre note ici..."
+                    placeholder={t('courseDetail.noteContentPlaceholder')}
                     value={newNote.content}
-                    onChange={(e) => setNewNote({ ...newNote, content: e.target.value })}
+                    onChange={(content) => setNewNote({ ...newNote, content })}
                     rows={6}
                   />
                 </div>
@@ -454,7 +405,7 @@ export default function CourseDetail() {
                     disabled={!newNote.title.trim()}
                     className="bg-gradient-primary hover:opacity-90"
                   >
-                    Créer la note
+                    {t('courseDetail.createNote')}
                   </Button>
                   <Button 
                     variant="outline"
@@ -463,7 +414,7 @@ export default function CourseDetail() {
                       setNewNote({ title: '', content: '' });
                     }}
                   >
-                    Annuler
+                    {t('common.cancel')}
                   </Button>
                 </div>
               </CardContent>
@@ -474,9 +425,9 @@ export default function CourseDetail() {
             <Card className="shadow-card border-0">
               <CardContent className="flex flex-col items-center justify-center py-12">
                 <FileText className="h-16 w-16 text-muted-foreground mb-4" />
-                <h3 className="text-lg font-semibold mb-2">Aucune note pour le moment</h3>
+                <h3 className="text-lg font-semibold mb-2">{t('courseDetail.noNotes')}</h3>
                 <p className="text-muted-foreground text-center mb-6">
-                  Créez votre première note pour ce cours
+                  {t('courseDetail.noNotesDescription')}
                 </p>
               </CardContent>
             </Card>
@@ -490,8 +441,15 @@ export default function CourseDetail() {
                       <div className="flex items-center space-x-2">
                         <div className="flex items-center text-sm text-muted-foreground">
                           <Clock className="h-4 w-4 mr-1" />
-                          {new Date(note.updated_at).toLocaleDateString('fr-FR')}
+                          {formatDate(note.updated_at)}
                         </div>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => navigate(`/courses/${course.id}/notes/${note.id}`)}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
                         <Button
                           variant="outline"
                           size="icon"
@@ -503,9 +461,11 @@ export default function CourseDetail() {
                     </div>
                   </CardHeader>
                   <CardContent>
-                    <div className="whitespace-pre-wrap text-sm">
-                      {note.content || "Aucun contenu"}
-                    </div>
+                    {note.content ? (
+                      <MarkdownRenderer content={note.content} />
+                    ) : (
+                      <p className="text-sm text-muted-foreground">{t('common.noContent')}</p>
+                    )}
                   </CardContent>
                 </Card>
               ))}
@@ -515,78 +475,64 @@ export default function CourseDetail() {
 
         {/* Files Tab */}
         <TabsContent value="files" className="space-y-6">
-          <div className="flex justify-between items-center">
-            <h2 className="text-2xl font-semibold">Fichiers du cours</h2>
-            <div>
-              <input
-                type="file"
-                id="file-upload"
-                className="hidden"
-                onChange={uploadFile}
-                disabled={uploading}
-              />
-              <Button 
-                onClick={() => document.getElementById('file-upload')?.click()}
-                disabled={uploading}
-                className="bg-gradient-accent hover:opacity-90 shadow-glow"
-              >
-                <Upload className="h-4 w-4 mr-2" />
-                {uploading ? 'Upload...' : 'Uploader un fichier'}
-              </Button>
-            </div>
+          <div className="flex items-center justify-between gap-2">
+            <h2 className="text-2xl font-semibold">{t('courseDetail.filesTitle')}</h2>
+            <Button variant="outline" size="sm" onClick={() => setShowDuplicates(true)}>
+              <Copy className="h-4 w-4 mr-2" />
+              {t('duplicates.open')}
+            </Button>
           </div>
 
-          {files.length === 0 ? (
-            <Card className="shadow-card border-0">
-              <CardContent className="flex flex-col items-center justify-center py-12">
-                <File className="h-16 w-16 text-muted-foreground mb-4" />
-                <h3 className="text-lg font-semibold mb-2">Aucun fichier pour le moment</h3>
-                <p className="text-muted-foreground text-center mb-6">
-                  Uploadez votre premier fichier pour ce cours
-                </p>
-              </CardContent>
-            </Card>
-          ) : (
-            <div className="space-y-3">
-              {files.map((file) => (
-                <Card key={file.id} className="shadow-card border-0">
-                  <CardContent className="p-4">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-3">
-                        <File className="h-8 w-8 text-primary" />
-                        <div>
-                          <h4 className="font-medium">{file.filename}</h4>
-                          <div className="flex items-center space-x-2 text-sm text-muted-foreground">
-                            <span>{formatFileSize(file.file_size)}</span>
-                            <span>•</span>
-                            <span>{new Date(file.created_at).toLocaleDateString('fr-FR')}</span>
-                          </div>
-                        </div>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          onClick={() => downloadFile(file)}
-                        >
-                          <Download className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          onClick={() => deleteFile(file)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
-          )}
+          <FileDropZone onFiles={(picked) => uploads.addFiles(picked, folderId)} />
+
+          <UploadList
+            items={uploads.items}
+            onCancel={uploads.cancel}
+            onRetry={uploads.retry}
+            onLinkDuplicate={uploads.linkDuplicate}
+            onUploadAnyway={uploads.uploadAnyway}
+            onResume={() => document.getElementById('file-upload')?.click()}
+            onRetryFailed={uploads.retryFailed}
+            onClearFinished={uploads.clearFinished}
+          />
+
+          <CourseFileBrowser
+            courseId={course.id}
+            folders={folders}
+            files={files}
+            folderId={folderId}
+            onOpenFolder={openFolder}
+            onPreview={(file) => setPreviewId(file.id)}
+            onDownload={downloadFile}
+            onDelete={deleteFile}
+          />
+
+          <FilePreviewDialog
+            files={folderFiles}
+            fileId={previewId}
+            onFileChange={setPreviewId}
+            onDownload={downloadFile}
+          />
+
+          <FileDuplicatesDialog open={showDuplicates} onClose={() => setShowDuplicates(false)} />
         </TabsContent>
       </Tabs>
+
+      <Dialog open={showUpload} onOpenChange={setShowUpload}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('upload.dialogTitle', { course: course.title })}</DialogTitle>
+            <DialogDescription>{t('upload.dialogDescription')}</DialogDescription>
+          </DialogHeader>
+          <FileDropZone
+            inputId="file-upload-dialog"
+            onFiles={(picked) => {
+              uploads.addFiles(picked, folderId);
+              setShowUpload(false);
+            }}
+          />
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
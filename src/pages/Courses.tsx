@@ -1,6 +1,5 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -14,9 +13,16 @@ import {
   Archive,
   Filter,
   Grid3X3,
-  List
+  List,
+  Trash2
 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import { useSearch, type SearchKind } from "@/hooks/use-search";
+import { useCourses, useUpdateCourse } from "@/hooks/use-courses";
+import DeleteCourseDialog from "@/components/DeleteCourseDialog";
+import { execute } from "@/lib/undo";
+import { useI18n } from "@/hooks/use-i18n";
+import type { MessageKey } from "@/lib/i18n";
 import {
   Select,
   SelectContent,
@@ -25,70 +31,36 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
-interface Course {
-  id: string;
-  title: string;
-  description: string;
-  color: string;
-  status: string;
-  created_at: string;
-  updated_at: string;
-}
+const COURSE_SEARCH_KINDS: SearchKind[] = ['course'];
 
 export default function Courses() {
-  const [courses, setCourses] = useState<Course[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: courses = [], isLoading: loading } = useCourses();
+  const updateCourse = useUpdateCourse();
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const { t, formatDate } = useI18n();
   const navigate = useNavigate();
 
-  useEffect(() => {
-    fetchCourses();
-  }, []);
-
-  const fetchCourses = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('courses')
-        .select('*')
-        .order('updated_at', { ascending: false });
-
-      if (error) throw error;
-      setCourses(data || []);
-    } catch (error) {
-      toast({
-        variant: "destructive",
-        title: "Erreur",
-        description: "Impossible de charger les cours",
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const updateCourseStatus = async (courseId: string, status: string) => {
-    try {
-      const { error } = await supabase
-        .from('courses')
-        .update({ status })
-        .eq('id', courseId);
-
-      if (error) throw error;
+    const previousStatus = courses.find(course => course.id === courseId)?.status;
 
-      setCourses(courses.map(course => 
-        course.id === courseId ? { ...course, status } : course
-      ));
+    const applyStatus = async (nextStatus: string) => {
+      await updateCourse.mutateAsync({ id: courseId, changes: { status: nextStatus } });
+    };
 
-      toast({
-        title: "Statut mis à jour",
-        description: "Le statut du cours a été modifié avec succès",
+    try {
+      await execute({
+        title: t('courses.statusUpdated'),
+        description: t('courses.statusUpdatedDescription'),
+        run: () => applyStatus(status),
+        undo: () => applyStatus(previousStatus),
       });
     } catch (error) {
       toast({
         variant: "destructive",
-        title: "Erreur",
-        description: "Impossible de modifier le statut",
+        title: t('common.error'),
+        description: t('courses.statusUpdateError'),
       });
     }
   };
@@ -119,9 +91,23 @@ export default function Courses() {
     }
   };
 
+  const {
+    results: searchResults,
+    pending: searchPending,
+    unavailable: searchUnavailable
+  } = useSearch(searchTerm, 200, COURSE_SEARCH_KINDS);
+  const term = searchTerm.trim().toLowerCase();
+  const matchingCourseIds = new Set(
+    searchResults.filter(hit => hit.kind === 'course').map(hit => hit.id)
+  );
+
   const filteredCourses = courses.filter(course => {
-    const matchesSearch = course.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         course.description?.toLowerCase().includes(searchTerm.toLowerCase());
+    // Until the first results come in, the list stays as it was. Without
+    // the server, courses are matched on their text.
+    const matchesSearch = !term || (searchUnavailable
+      ? course.title.toLowerCase().includes(term) ||
+        !!course.description?.toLowerCase().includes(term)
+      : searchPending || matchingCourseIds.has(course.id));
     const matchesStatus = statusFilter === 'all' || course.status === statusFilter;
     return matchesSearch && matchesStatus;
   });
@@ -149,10 +135,10 @@ export default function Courses() {
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
         <div>
           <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
-            Mes cours
+            {t('courses.title')}
           </h1>
           <p className="text-muted-foreground mt-1">
-            Gérez tous vos cours en un seul endroit
+            {t('courses.subtitle')}
           </p>
         </div>
         <Button 
@@ -160,7 +146,7 @@ export default function Courses() {
           className="bg-gradient-primary hover:opacity-90 shadow-glow"
         >
           <Plus className="mr-2 h-4 w-4" />
-          Nouveau cours
+          {t('common.newCourse')}
         </Button>
       </div>
 
@@ -169,7 +155,7 @@ export default function Courses() {
         <div className="relative flex-1 max-w-md">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
-            placeholder="Rechercher un cours..."
+            placeholder={t('courses.searchPlaceholder')}
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="pl-10"
@@ -183,10 +169,10 @@ export default function Courses() {
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="all">Tous les statuts</SelectItem>
-              <SelectItem value="active">Actifs</SelectItem>
-              <SelectItem value="completed">Terminés</SelectItem>
-              <SelectItem value="archived">Archivés</SelectItem>
+              <SelectItem value="all">{t('courses.allStatuses')}</SelectItem>
+              <SelectItem value="active">{t('courses.filter.active')}</SelectItem>
+              <SelectItem value="completed">{t('courses.filter.completed')}</SelectItem>
+              <SelectItem value="archived">{t('courses.filter.archived')}</SelectItem>
             </SelectContent>
           </Select>
           
@@ -217,12 +203,12 @@ export default function Courses() {
           <CardContent className="flex flex-col items-center justify-center py-12">
             <BookOpen className="h-16 w-16 text-muted-foreground mb-4" />
             <h3 className="text-lg font-semibold mb-2">
-              {searchTerm || statusFilter !== 'all' ? 'Aucun cours trouvé' : 'Aucun cours pour le moment'}
+              {searchTerm || statusFilter !== 'all' ? t('courses.noResults') : t('common.noCoursesYet')}
             </h3>
             <p className="text-muted-foreground text-center mb-6">
               {searchTerm || statusFilter !== 'all' 
-                ? 'Essayez de modifier vos critères de recherche' 
-                : 'Créez votre premier cours pour commencer à organiser vos études'
+                ? t('common.tryOtherFilters')
+                : t('common.createFirstCourse')
               }
             </p>
             {(!searchTerm && statusFilter === 'all') && (
@@ -231,7 +217,7 @@ export default function Courses() {
                 className="bg-gradient-primary hover:opacity-90 shadow-glow"
               >
                 <Plus className="mr-2 h-4 w-4" />
-                Créer un cours
+                {t('common.createCourse')}
               </Button>
             )}
           </CardContent>
@@ -254,20 +240,36 @@ export default function Courses() {
                       className="w-4 h-4 rounded-full group-hover:scale-110 transition-transform"
                       style={{ backgroundColor: course.color }}
                     />
-                    <Badge 
-                      className={`cursor-pointer ${getStatusColor(course.status)}`}
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        const newStatus = course.status === 'active' ? 'completed' : 
-                                        course.status === 'completed' ? 'archived' : 'active';
-                        updateCourseStatus(course.id, newStatus);
-                      }}
-                    >
-                      <div className="flex items-center gap-1">
-                        {getStatusIcon(course.status)}
-                        {course.status}
+                    <div className="flex items-center gap-2">
+                      <div
+                        className="opacity-0 group-hover:opacity-100 transition-opacity"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <DeleteCourseDialog course={course}>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-7 w-7 hover:bg-destructive hover:text-destructive-foreground"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </DeleteCourseDialog>
                       </div>
-                    </Badge>
+                      <Badge 
+                        className={`cursor-pointer ${getStatusColor(course.status)}`}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          const newStatus = course.status === 'active' ? 'completed' : 
+                                          course.status === 'completed' ? 'archived' : 'active';
+                          updateCourseStatus(course.id, newStatus);
+                        }}
+                      >
+                        <div className="flex items-center gap-1">
+                          {getStatusIcon(course.status)}
+                          {t(`status.${course.status}` as MessageKey)}
+                        </div>
+                      </Badge>
+                    </div>
                   </div>
                   <CardTitle className="text-lg group-hover:text-primary transition-colors">
                     {course.title}
@@ -275,10 +277,10 @@ export default function Courses() {
                 </CardHeader>
                 <CardContent>
                   <p className="text-muted-foreground text-sm line-clamp-2 mb-4">
-                    {course.description || "Aucune description"}
+                    {course.description || t('common.noDescription')}
                   </p>
                   <div className="text-xs text-muted-foreground">
-                    Mis à jour {new Date(course.updated_at).toLocaleDateString('fr-FR')}
+                    {t('common.updatedOn', { date: formatDate(course.updated_at) })}
                   </div>
                 </CardContent>
               </Card>
@@ -300,7 +302,7 @@ export default function Courses() {
                           {course.title}
                         </h3>
                         <p className="text-muted-foreground text-sm">
-                          {course.description || "Aucune description"}
+                          {course.description || t('common.noDescription')}
                         </p>
                       </div>
                     </div>
@@ -316,12 +318,23 @@ export default function Courses() {
                       >
                         <div className="flex items-center gap-1">
                           {getStatusIcon(course.status)}
-                          {course.status}
+                          {t(`status.${course.status}` as MessageKey)}
                         </div>
                       </Badge>
                       <div className="text-xs text-muted-foreground text-right">
-                        Mis à jour<br />
-                        {new Date(course.updated_at).toLocaleDateString('fr-FR')}
+                        {t('common.updated')}<br />
+                        {formatDate(course.updated_at)}
+                      </div>
+                      <div onClick={(e) => e.stopPropagation()}>
+                        <DeleteCourseDialog course={course}>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="hover:bg-destructive hover:text-destructive-foreground"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </DeleteCourseDialog>
                       </div>
                     </div>
                   </div>
@@ -1,26 +1,35 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useProfile } from "@/hooks/use-profile";
+import { useI18n } from "@/hooks/use-i18n";
+import { useCreateCourse } from "@/hooks/use-courses";
 import { ArrowLeft, Palette } from "lucide-react";
-
-const courseColors = [
-  '#6c5ce7', '#a29bfe', '#fd79a8', '#fdcb6e', 
-  '#e17055', '#00b894', '#00cec9', '#0984e3',
-  '#6c5ce7', '#fd79a8', '#e84393', '#00b894'
-];
+import CourseColorPicker from "@/components/CourseColorPicker";
+import { courseColors } from "@/lib/utils";
 
 export default function CoursesNew() {
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [selectedColor, setSelectedColor] = useState(courseColors[0]);
   const [loading, setLoading] = useState(false);
+  const { user } = useAuth();
+  const { profile } = useProfile();
+  const createCourseMutation = useCreateCourse();
   const navigate = useNavigate();
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (profile?.default_course_color) {
+      setSelectedColor(profile.default_course_color);
+    }
+  }, [profile?.default_course_color]);
 
   const createCourse = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -28,8 +37,8 @@ export default function CoursesNew() {
     if (!title.trim()) {
       toast({
         variant: "destructive",
-        title: "Erreur",
-        description: "Le titre est obligatoire",
+        title: t('common.error'),
+        description: t('newCourse.titleRequired'),
       });
       return;
     }
@@ -37,28 +46,16 @@ export default function CoursesNew() {
     setLoading(true);
 
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      if (!session?.user) {
-        throw new Error("Utilisateur non connecté");
-      }
-
-      const { data, error } = await supabase
-        .from('courses')
-        .insert({
-          title: title.trim(),
-          description: description.trim() || null,
-          color: selectedColor,
-          user_id: session.user.id
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
+      const data = await createCourseMutation.mutateAsync({
+        title: title.trim(),
+        description: description.trim() || null,
+        color: selectedColor,
+        user_id: user.id
+      });
 
       toast({
-        title: "Cours créé !",
-        description: "Votre nouveau cours a été créé avec succès",
+        title: t('newCourse.created'),
+        description: t('newCourse.createdDescription'),
       });
 
       navigate(`/courses/${data.id}`);
@@ -66,8 +63,8 @@ export default function CoursesNew() {
       console.error('Error creating course:', error);
       toast({
         variant: "destructive",
-        title: "Erreur",
-        description: "Impossible de créer le cours",
+        title: t('common.error'),
+        description: t('newCourse.createError'),
       });
     } finally {
       setLoading(false);
@@ -86,25 +83,25 @@ export default function CoursesNew() {
         </Button>
         <div>
           <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
-            Nouveau cours
+            {t('common.newCourse')}
           </h1>
           <p className="text-muted-foreground">
-            Créez un nouveau cours pour organiser vos études
+            {t('newCourse.subtitle')}
           </p>
         </div>
       </div>
 
       <Card className="shadow-card border-0">
         <CardHeader>
-          <CardTitle>Informations du cours</CardTitle>
+          <CardTitle>{t('newCourse.details')}</CardTitle>
         </CardHeader>
         <CardContent>
           <form onSubmit={createCourse} className="space-y-6">
             <div className="space-y-2">
-              <Label htmlFor="title">Titre du cours *</Label>
+              <Label htmlFor="title">{t('newCourse.title')}</Label>
               <Input
                 id="title"
-                placeholder="Ex: Mathématiques avancées"
+                placeholder={t('newCourse.titlePlaceholder')}
                 value={title}
                 onChange={(e) => setTitle(e.target.value)}
                 required
@@ -112,10 +109,10 @@ export default function CoursesNew() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="description">Description</Label>
+              <Label htmlFor="description">{t('newCourse.description')}</Label>
               <Textarea
                 id="description"
-                placeholder="Décrivez brièvement le contenu de ce cours..."
+                placeholder={t('newCourse.descriptionPlaceholder')}
                 value={description}
                 onChange={(e) => setDescription(e.target.value)}
                 rows={4}
@@ -125,25 +122,9 @@ export default function CoursesNew() {
             <div className="space-y-3">
               <Label className="flex items-center gap-2">
                 <Palette className="h-4 w-4" />
-                Couleur du cours
+                {t('newCourse.color')}
               </Label>
-              <div className="grid grid-cols-6 gap-3">
-                {courseColors.map((color) => (
-                  <button
-                    key={color}
-                    type="button"
-                    className={`
-                      w-10 h-10 rounded-lg border-2 transition-all hover:scale-110
-                      ${selectedColor === color 
-                        ? 'border-foreground shadow-glow' 
-                        : 'border-transparent hover:border-muted-foreground'
-                      }
-                    `}
-                    style={{ backgroundColor: color }}
-                    onClick={() => setSelectedColor(color)}
-                  />
-                ))}
-              </div>
+              <CourseColorPicker value={selectedColor} onChange={setSelectedColor} />
             </div>
 
             <div className="flex space-x-4 pt-4">
@@ -153,14 +134,14 @@ export default function CoursesNew() {
                 onClick={() => navigate('/')}
                 className="flex-1"
               >
-                Annuler
+                {t('common.cancel')}
               </Button>
               <Button
                 type="submit"
                 disabled={loading}
                 className="flex-1 bg-gradient-primary hover:opacity-90 shadow-glow"
               >
-                {loading ? "Création..." : "Créer le cours"}
+                {loading ? t('newCourse.creating') : t('common.createCourse')}
               </Button>
             </div>
           </form>
@@ -1,5 +1,3 @@
-import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -12,81 +10,27 @@ import {
   Archive,
   TrendingUp
 } from "lucide-react";
-import { toast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
+import { useCourses } from "@/hooks/use-courses";
+import { useNoteCount } from "@/hooks/use-course-notes";
+import { useI18n } from "@/hooks/use-i18n";
+import type { MessageKey } from "@/lib/i18n";
 
-interface Course {
-  id: string;
-  title: string;
-  description: string;
-  color: string;
-  status: string;
-  created_at: string;
-  updated_at: string;
-}
-
-interface DashboardStats {
-  totalCourses: number;
-  activeCourses: number;
-  completedCourses: number;
-  totalNotes: number;
-}
+const RECENT_COURSES = 6;
 
 export default function Dashboard() {
-  const [courses, setCourses] = useState<Course[]>([]);
-  const [stats, setStats] = useState<DashboardStats>({
-    totalCourses: 0,
-    activeCourses: 0,
-    completedCourses: 0,
-    totalNotes: 0
-  });
-  const [loading, setLoading] = useState(true);
+  const { data: allCourses = [], isLoading: coursesLoading } = useCourses();
+  const { data: totalNotes = 0, isLoading: notesLoading } = useNoteCount();
+  const { t, formatDate } = useI18n();
   const navigate = useNavigate();
 
-  useEffect(() => {
-    fetchDashboardData();
-  }, []);
-
-  const fetchDashboardData = async () => {
-    try {
-      // Fetch courses
-      const { data: coursesData, error: coursesError } = await supabase
-        .from('courses')
-        .select('*')
-        .order('updated_at', { ascending: false })
-        .limit(6);
-
-      if (coursesError) throw coursesError;
-
-      // Fetch notes count
-      const { count: notesCount, error: notesError } = await supabase
-        .from('course_notes')
-        .select('*', { count: 'exact', head: true });
-
-      if (notesError) throw notesError;
-
-      setCourses(coursesData || []);
-      
-      const totalCourses = coursesData?.length || 0;
-      const activeCourses = coursesData?.filter(c => c.status === 'active').length || 0;
-      const completedCourses = coursesData?.filter(c => c.status === 'completed').length || 0;
-
-      setStats({
-        totalCourses,
-        activeCourses,
-        completedCourses,
-        totalNotes: notesCount || 0
-      });
-
-    } catch (error) {
-      toast({
-        variant: "destructive",
-        title: "Erreur",
-        description: "Impossible de charger les données",
-      });
-    } finally {
-      setLoading(false);
-    }
+  const loading = coursesLoading || notesLoading;
+  const courses = allCourses.slice(0, RECENT_COURSES);
+  const stats = {
+    totalCourses: allCourses.length,
+    activeCourses: allCourses.filter(c => c.status === 'active').length,
+    completedCourses: allCourses.filter(c => c.status === 'completed').length,
+    totalNotes
   };
 
   const getStatusIcon = (status: string) => {
@@ -138,10 +82,10 @@ export default function Dashboard() {
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
         <div>
           <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
-            Dashboard
+            {t('dashboard.title')}
           </h1>
           <p className="text-muted-foreground mt-1">
-            Bienvenue ! Voici un aperçu de vos cours.
+            {t('dashboard.subtitle')}
           </p>
         </div>
         <Button 
@@ -149,7 +93,7 @@ export default function Dashboard() {
           className="bg-gradient-primary hover:opacity-90 shadow-glow"
         >
           <Plus className="mr-2 h-4 w-4" />
-          Nouveau cours
+          {t('common.newCourse')}
         </Button>
       </div>
 
@@ -160,7 +104,7 @@ export default function Dashboard() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-primary-foreground/80 text-sm font-medium">
-                  Total des cours
+                  {t('dashboard.totalCourses')}
                 </p>
                 <p className="text-3xl font-bold">{stats.totalCourses}</p>
               </div>
@@ -174,7 +118,7 @@ export default function Dashboard() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-muted-foreground text-sm font-medium">
-                  Cours actifs
+                  {t('dashboard.activeCourses')}
                 </p>
                 <p className="text-3xl font-bold text-primary">{stats.activeCourses}</p>
               </div>
@@ -188,7 +132,7 @@ export default function Dashboard() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-muted-foreground text-sm font-medium">
-                  Cours terminés
+                  {t('dashboard.completedCourses')}
                 </p>
                 <p className="text-3xl font-bold text-success">{stats.completedCourses}</p>
               </div>
@@ -202,7 +146,7 @@ export default function Dashboard() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-muted-foreground text-sm font-medium">
-                  Total des notes
+                  {t('dashboard.totalNotes')}
                 </p>
                 <p className="text-3xl font-bold text-accent">{stats.totalNotes}</p>
               </div>
@@ -215,12 +159,12 @@ export default function Dashboard() {
       {/* Recent Courses */}
       <div>
         <div className="flex items-center justify-between mb-6">
-          <h2 className="text-2xl font-semibold">Cours récents</h2>
+          <h2 className="text-2xl font-semibold">{t('dashboard.recentCourses')}</h2>
           <Button 
             variant="outline" 
             onClick={() => navigate('/courses')}
           >
-            Voir tout
+            {t('dashboard.seeAll')}
           </Button>
         </div>
 
@@ -228,16 +172,16 @@ export default function Dashboard() {
           <Card className="shadow-card border-0">
             <CardContent className="flex flex-col items-center justify-center py-12">
               <BookOpen className="h-16 w-16 text-muted-foreground mb-4" />
-              <h3 className="text-lg font-semibold mb-2">Aucun cours pour le moment</h3>
+              <h3 className="text-lg font-semibold mb-2">{t('common.noCoursesYet')}</h3>
               <p className="text-muted-foreground text-center mb-6">
-                Créez votre premier cours pour commencer à organiser vos études
+                {t('common.createFirstCourse')}
               </p>
               <Button 
                 onClick={() => navigate('/courses/new')}
                 className="bg-gradient-primary hover:opacity-90 shadow-glow"
               >
                 <Plus className="mr-2 h-4 w-4" />
-                Créer un cours
+                {t('common.createCourse')}
               </Button>
             </CardContent>
           </Card>
@@ -258,7 +202,7 @@ export default function Dashboard() {
                     <Badge className={getStatusIcon(course.status) ? getStatusColor(course.status) : ''}>
                       <div className="flex items-center gap-1">
                         {getStatusIcon(course.status)}
-                        {course.status}
+                        {t(`status.${course.status}` as MessageKey)}
                       </div>
                     </Badge>
                   </div>
@@ -266,11 +210,11 @@ export default function Dashboard() {
                 </CardHeader>
                 <CardContent>
                   <p className="text-muted-foreground text-sm line-clamp-2 mb-4">
-                    {course.description || "Aucune description"}
+                    {course.description || t('common.noDescription')}
                   </p>
                   <div className="flex items-center text-xs text-muted-foreground">
                     <TrendingUp className="mr-1 h-3 w-3" />
-                    Mis à jour {new Date(course.updated_at).toLocaleDateString('fr-FR')}
+                    {t('common.updatedOn', { date: formatDate(course.updated_at) })}
                   </div>
                 </CardContent>
               </Card>
@@ -0,0 +1,350 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  ArrowLeft,
+  Check,
+  Loader2,
+  AlertTriangle,
+  RefreshCw,
+  Save
+} from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/use-i18n";
+import MarkdownEditor from "@/components/MarkdownEditor";
+import NoteHistory from "@/components/NoteHistory";
+import { addRecentItem } from "@/lib/recent";
+import { useNote, useSaveNote, type NoteWithCourse } from "@/hooks/use-course-notes";
+
+type SaveStatus = 'saved' | 'dirty' | 'saving' | 'conflict' | 'error';
+
+const AUTOSAVE_DELAY = 1000;
+
+export default function NoteEditor() {
+  const { id, noteId } = useParams();
+  const navigate = useNavigate();
+  const { t, formatDate } = useI18n();
+  const { data: note, isLoading: loading, refetch } = useNote(noteId, id);
+  const { mutateAsync: saveNoteMutation } = useSaveNote();
+  const [form, setForm] = useState({ title: '', content: '' });
+  const [status, setStatus] = useState<SaveStatus>('saved');
+  const [changedElsewhereAt, setChangedElsewhereAt] = useState<string | null>(null);
+
+  // Refs mirror the latest state so the debounced save and the unmount
+  // flush never work on a stale closure.
+  const formRef = useRef(form);
+  const savedRef = useRef(form);
+  const versionRef = useRef<string | null>(null);
+  const statusRef = useRef<SaveStatus>('saved');
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const updateStatus = (next: SaveStatus) => {
+    statusRef.current = next;
+    setStatus(next);
+  };
+
+  const applyNote = useCallback((data: NoteWithCourse) => {
+    const loaded = { title: data.title, content: data.content || '' };
+    setForm(loaded);
+    formRef.current = loaded;
+    savedRef.current = loaded;
+    versionRef.current = data.updated_at;
+    updateStatus('saved');
+  }, []);
+
+  // The editor stays mounted when moving from one note to another.
+  useEffect(() => {
+    versionRef.current = null;
+    setChangedElsewhereAt(null);
+  }, [noteId]);
+
+  useEffect(() => {
+    if (note === null) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('noteEditor.notFound'),
+      });
+      navigate(`/courses/${id}`);
+      return;
+    }
+    if (!note) return;
+
+    if (!versionRef.current) {
+      addRecentItem({
+        kind: 'note',
+        id: note.id,
+        title: note.title,
+        href: `/courses/${note.course_id}/notes/${note.id}`
+      });
+      applyNote(note);
+      return;
+    }
+
+    // Edits saved offline come back from the server once replayed, with
+    // the content we saved and a new version.
+    if (note.title === savedRef.current.title && (note.content || '') === savedRef.current.content) {
+      versionRef.current = note.updated_at;
+      return;
+    }
+
+    // Anything else strictly newer was saved from another tab or device.
+    if (Date.parse(note.updated_at) <= Date.parse(versionRef.current)) return;
+
+    if (statusRef.current === 'saved') {
+      applyNote(note);
+      setChangedElsewhereAt(note.updated_at);
+    } else if (statusRef.current === 'dirty') {
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+        timerRef.current = null;
+      }
+      updateStatus('conflict');
+    }
+  }, [note, id, navigate, applyNote, t]);
+
+  // Only writes if the row still carries the updated_at we last saw, so a
+  // newer version saved from another tab or device is never overwritten.
+  // Resolves to whether the note was saved.
+  const saveNote = useCallback(async (force = false): Promise<boolean> => {
+    if (!noteId || !versionRef.current) return false;
+    if (statusRef.current === 'conflict' && !force) return false;
+
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+
+    const snapshot = formRef.current;
+    if (!snapshot.title.trim()) return false;
+
+    updateStatus('saving');
+
+    try {
+      const data = await saveNoteMutation({
+        id: noteId,
+        title: snapshot.title,
+        content: snapshot.content,
+        expectedUpdatedAt: force ? undefined : versionRef.current,
+      });
+
+      if (!data) {
+        updateStatus('conflict');
+        return false;
+      }
+
+      versionRef.current = data.updated_at;
+      savedRef.current = snapshot;
+
+      // Keep typing that happened while the request was in flight dirty.
+      if (formRef.current !== snapshot) {
+        updateStatus('dirty');
+        timerRef.current = setTimeout(() => saveNote(), AUTOSAVE_DELAY);
+      } else {
+        updateStatus('saved');
+      }
+      return true;
+    } catch (error) {
+      updateStatus('error');
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('noteEditor.saveError'),
+      });
+      return false;
+    }
+  }, [noteId, saveNoteMutation, t]);
+
+  const handleChange = (changes: Partial<typeof form>) => {
+    const next = { ...formRef.current, ...changes };
+    formRef.current = next;
+    setForm(next);
+    setChangedElsewhereAt(null);
+
+    if (statusRef.current === 'conflict') return;
+
+    updateStatus('dirty');
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => saveNote(), AUTOSAVE_DELAY);
+  };
+
+  // Flush pending edits when leaving the editor.
+  useEffect(() => {
+    return () => {
+      if (timerRef.current && statusRef.current === 'dirty') {
+        saveNote();
+      }
+    };
+  }, [saveNote]);
+
+  const restoreRevision = async (revision: { title: string; content: string }) => {
+    if (statusRef.current === 'conflict') {
+      toast({
+        variant: "destructive",
+        title: t('noteEditor.conflictTitle'),
+        description: t('noteEditor.restoreConflict'),
+      });
+      return false;
+    }
+
+    handleChange({ title: revision.title, content: revision.content });
+    const saved = await saveNote();
+    if (saved) {
+      toast({
+        title: t('noteEditor.restored'),
+        description: t('noteEditor.restoredDescription'),
+      });
+    }
+    return saved;
+  };
+
+  const reloadServerVersion = async () => {
+    const { data } = await refetch();
+    if (data) applyNote(data);
+  };
+
+  const renderStatus = () => {
+    switch (status) {
+      case 'saving':
+        return (
+          <span className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            {t('noteEditor.saving')}
+          </span>
+        );
+      case 'dirty':
+        return (
+          <span className="flex items-center text-sm text-muted-foreground">
+            {t('noteEditor.dirty')}
+          </span>
+        );
+      case 'conflict':
+        return (
+          <span className="flex items-center text-sm text-destructive">
+            <AlertTriangle className="h-4 w-4 mr-1" />
+            {t('noteEditor.conflict')}
+          </span>
+        );
+      case 'error':
+        return (
+          <span className="flex items-center text-sm text-destructive">
+            <AlertTriangle className="h-4 w-4 mr-1" />
+            {t('noteEditor.failed')}
+          </span>
+        );
+      default:
+        return (
+          <span className="flex items-center text-sm text-success">
+            <Check className="h-4 w-4 mr-1" />
+            {t('noteEditor.saved')}
+          </span>
+        );
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-muted rounded w-1/3 mb-4"></div>
+          <div className="h-64 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!note) {
+    return (
+      <div className="text-center">
+        <h2 className="text-2xl font-bold">{t('noteEditor.notFound')}</h2>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center space-x-4">
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => navigate(`/courses/${id}`)}
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div className="flex-1">
+          <p className="text-sm text-muted-foreground">{note.courses?.title}</p>
+          <Input
+            value={form.title}
+            onChange={(e) => handleChange({ title: e.target.value })}
+            placeholder={t('noteEditor.titlePlaceholder')}
+            className="text-2xl font-bold"
+          />
+        </div>
+        <div className="flex items-center space-x-3">
+          {changedElsewhereAt && (
+            <span
+              className="flex items-center text-sm text-muted-foreground"
+              title={t('noteEditor.changedOn', { date: formatDate(changedElsewhereAt, 'PPp') })}
+            >
+              <RefreshCw className="h-4 w-4 mr-1" />
+              {t('noteEditor.changedElsewhere')}
+            </span>
+          )}
+          {renderStatus()}
+          <NoteHistory
+            noteId={note.id}
+            current={{ title: form.title, content: form.content, updated_at: note.updated_at }}
+            onRestore={restoreRevision}
+          />
+          {status === 'error' && (
+            <Button size="sm" variant="outline" onClick={() => saveNote()}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              {t('noteEditor.retry')}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {status === 'conflict' && (
+        <Card className="shadow-card border-destructive">
+          <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <p className="font-medium">{t('noteEditor.conflictTitle')}</p>
+              <p className="text-sm text-muted-foreground">
+                {t('noteEditor.conflictDescription')}
+              </p>
+            </div>
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={reloadServerVersion}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                {t('noteEditor.loadServerVersion')}
+              </Button>
+              <Button variant="destructive" size="sm" onClick={() => saveNote(true)}>
+                <Save className="h-4 w-4 mr-2" />
+                {t('noteEditor.overwrite')}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="shadow-card border-0">
+        <CardContent className="p-6">
+          <MarkdownEditor
+            value={form.content}
+            onChange={(content) => handleChange({ content })}
+            placeholder={t('noteEditor.contentPlaceholder')}
+            rows={20}
+            className="min-h-[60vh]"
+          />
+          <p className="text-xs text-muted-foreground mt-2">
+            {t('noteEditor.lastSaved', { date: formatDate(note.updated_at, 'PPp') })}
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
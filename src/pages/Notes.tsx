@@ -1,6 +1,5 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -15,6 +14,15 @@ import {
   Filter
 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import { excerpt } from "@/lib/markdown";
+import { useSearch, type SearchKind } from "@/hooks/use-search";
+import { useCourses } from "@/hooks/use-courses";
+import { useNotes } from "@/hooks/use-course-notes";
+import { useMoveToTrash, useRestoreFromTrash } from "@/hooks/use-trash";
+import { execute } from "@/lib/undo";
+import { useI18n } from "@/hooks/use-i18n";
+import { useThemePreference } from "@/hooks/use-theme-preference";
+import { readableCourseColor } from "@/lib/utils";
 import {
   Select,
   SelectContent,
@@ -23,104 +31,71 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
-interface Note {
-  id: string;
-  title: string;
-  content: string;
-  created_at: string;
-  updated_at: string;
-  course_id: string;
-  courses: {
-    title: string;
-    color: string;
-  };
-}
+// A note also matches through the title of its course.
+const NOTE_SEARCH_KINDS: SearchKind[] = ['note', 'course'];
 
 export default function Notes() {
-  const [notes, setNotes] = useState<Note[]>([]);
-  const [courses, setCourses] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: notes = [], isLoading: loading } = useNotes();
+  const { data: allCourses = [] } = useCourses();
+  const moveToTrash = useMoveToTrash();
+  const restoreFromTrash = useRestoreFromTrash();
   const [searchTerm, setSearchTerm] = useState("");
   const [courseFilter, setCourseFilter] = useState("all");
+  const { locale, t, formatDate } = useI18n();
+  const { resolvedTheme } = useThemePreference();
   const navigate = useNavigate();
 
-  useEffect(() => {
-    fetchNotesAndCourses();
-  }, []);
-
-  const fetchNotesAndCourses = async () => {
-    try {
-      // Fetch notes with course info
-      const { data: notesData, error: notesError } = await supabase
-        .from('course_notes')
-        .select(`
-          *,
-          courses (
-            title,
-            color
-          )
-        `)
-        .order('updated_at', { ascending: false });
-
-      if (notesError) throw notesError;
-
-      // Fetch courses for filter
-      const { data: coursesData, error: coursesError } = await supabase
-        .from('courses')
-        .select('id, title, color')
-        .order('title');
-
-      if (coursesError) throw coursesError;
-
-      setNotes(notesData || []);
-      setCourses(coursesData || []);
-    } catch (error) {
-      toast({
-        variant: "destructive",
-        title: "Erreur",
-        description: "Impossible de charger les notes",
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
+  const courses = [...allCourses].sort((a, b) => a.title.localeCompare(b.title, locale));
 
   const deleteNote = async (noteId: string) => {
     try {
-      const { error } = await supabase
-        .from('course_notes')
-        .delete()
-        .eq('id', noteId);
-
-      if (error) throw error;
-
-      setNotes(notes.filter(note => note.id !== noteId));
-      toast({
-        title: "Note supprimée",
-        description: "La note a été supprimée avec succès",
+      await execute({
+        title: t('notes.trashed'),
+        description: t('notes.trashedDescription'),
+        run: async () => {
+          await moveToTrash.mutateAsync({ table: 'course_notes', id: noteId });
+        },
+        undo: async () => {
+          await restoreFromTrash.mutateAsync({ table: 'course_notes', id: noteId });
+        },
       });
     } catch (error) {
       toast({
         variant: "destructive",
-        title: "Erreur",
-        description: "Impossible de supprimer la note",
+        title: t('common.error'),
+        description: t('notes.deleteError'),
       });
     }
   };
 
+  const {
+    results: searchResults,
+    pending: searchPending,
+    unavailable: searchUnavailable
+  } = useSearch(searchTerm, 200, NOTE_SEARCH_KINDS);
+  const term = searchTerm.trim().toLowerCase();
+  const matchingNoteIds = new Set(
+    searchResults.filter(hit => hit.kind === 'note').map(hit => hit.id)
+  );
+  const matchingCourseIds = new Set(
+    searchResults.filter(hit => hit.kind === 'course').map(hit => hit.id)
+  );
+
   const filteredNotes = notes.filter(note => {
-    const matchesSearch = note.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         note.content.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         note.courses.title.toLowerCase().includes(searchTerm.toLowerCase());
+    // Until the first results come in, the list stays as it was. Without
+    // the server, notes are matched on their text and course title.
+    const courseTitle = (note.courses ?? allCourses.find(c => c.id === note.course_id))?.title;
+    const matchesSearch = !term || (searchUnavailable
+      ? note.title.toLowerCase().includes(term) ||
+        !!note.content?.toLowerCase().includes(term) ||
+        !!courseTitle?.toLowerCase().includes(term)
+      : searchPending ||
+        matchingNoteIds.has(note.id) ||
+        matchingCourseIds.has(note.course_id));
     const matchesCourse = courseFilter === 'all' || note.course_id === courseFilter;
     return matchesSearch && matchesCourse;
   });
 
-  const truncateContent = (content: string, maxLength: number = 150) => {
-    if (content.length <= maxLength) return content;
-    return content.substr(0, maxLength) + '...';
-  };
-
   if (loading) {
     return (
       <div className="space-y-6">
@@ -144,10 +119,10 @@ export default function Notes() {
       {/* Header */}
       <div>
         <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
-          Toutes mes notes
+          {t('notes.title')}
         </h1>
         <p className="text-muted-foreground mt-1">
-          Retrouvez toutes vos notes organisées par cours
+          {t('notes.subtitle')}
         </p>
       </div>
 
@@ -156,7 +131,7 @@ export default function Notes() {
         <div className="relative flex-1 max-w-md">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
-            placeholder="Rechercher dans vos notes..."
+            placeholder={t('notes.searchPlaceholder')}
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="pl-10"
@@ -170,7 +145,7 @@ export default function Notes() {
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="all">Tous les cours</SelectItem>
+              <SelectItem value="all">{t('notes.allCourses')}</SelectItem>
               {courses.map((course) => (
                 <SelectItem key={course.id} value={course.id}>
                   <div className="flex items-center gap-2">
@@ -193,12 +168,12 @@ export default function Notes() {
           <CardContent className="flex flex-col items-center justify-center py-12">
             <FileText className="h-16 w-16 text-muted-foreground mb-4" />
             <h3 className="text-lg font-semibold mb-2">
-              {searchTerm || courseFilter !== 'all' ? 'Aucune note trouvée' : 'Aucune note pour le moment'}
+              {searchTerm || courseFilter !== 'all' ? t('notes.noResults') : t('notes.noNotes')}
             </h3>
             <p className="text-muted-foreground text-center mb-6">
               {searchTerm || courseFilter !== 'all' 
-                ? 'Essayez de modifier vos critères de recherche' 
-                : 'Créez des notes dans vos cours pour les voir apparaître ici'
+                ? t('common.tryOtherFilters')
+                : t('notes.noNotesDescription')
               }
             </p>
             {(!searchTerm && courseFilter === 'all') && (
@@ -207,76 +182,85 @@ export default function Notes() {
                 className="bg-gradient-primary hover:opacity-90 shadow-glow"
               >
                 <BookOpen className="mr-2 h-4 w-4" />
-                Voir mes cours
+                {t('notes.seeCourses')}
               </Button>
             )}
           </CardContent>
         </Card>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredNotes.map((note) => (
-            <Card 
-              key={note.id} 
-              className="shadow-card border-0 hover:shadow-glow transition-all cursor-pointer group"
-              onClick={() => navigate(`/courses/${note.course_id}`)}
-            >
-              <CardHeader className="pb-3">
-                <div className="flex items-center justify-between">
-                  <Badge 
-                    className="bg-card text-card-foreground border"
-                    style={{ 
-                      borderColor: note.courses.color,
-                      color: note.courses.color
-                    }}
-                  >
-                    <div className="flex items-center gap-1">
-                      <div 
-                        className="w-2 h-2 rounded-full"
-                        style={{ backgroundColor: note.courses.color }}
-                      />
-                      {note.courses.title}
-                    </div>
-                  </Badge>
-                  <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                    <Button
-                      variant="outline"
-                      size="icon"
-                      className="h-7 w-7"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        navigate(`/courses/${note.course_id}`);
-                      }}
-                    >
-                      <Edit className="h-3 w-3" />
-                    </Button>
-                    <Button
-                      variant="outline"
-                      size="icon"
-                      className="h-7 w-7 hover:bg-destructive hover:text-destructive-foreground"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        deleteNote(note.id);
+          {filteredNotes.map((note) => {
+            // Notes created offline have no course until they are synced.
+            const course = note.courses ?? allCourses.find(c => c.id === note.course_id);
+            const courseColor = course ? readableCourseColor(course.color, resolvedTheme) : undefined;
+            return (
+              <Card 
+                key={note.id} 
+                className="shadow-card border-0 hover:shadow-glow transition-all cursor-pointer group"
+                onClick={() => navigate(`/courses/${note.course_id}`)}
+              >
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <Badge 
+                      className="bg-card text-card-foreground border"
+                      style={{ 
+                        borderColor: courseColor,
+                        color: courseColor
                       }}
                     >
-                      <Trash2 className="h-3 w-3" />
-                    </Button>
+                      <div className="flex items-center gap-1">
+                        <div 
+                          className="w-2 h-2 rounded-full"
+                          style={{ backgroundColor: course?.color }}
+                        />
+                        {course?.title}
+                      </div>
+                    </Badge>
+                    <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          navigate(`/courses/${note.course_id}/notes/${note.id}`);
+                        }}
+                      >
+                        <Edit className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-7 w-7 hover:bg-destructive hover:text-destructive-foreground"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          deleteNote(note.id);
+                        }}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
                   </div>
-                </div>
-                <CardTitle className="text-lg group-hover:text-primary transition-colors">
-                  {note.title}
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <p className="text-muted-foreground text-sm line-clamp-3 mb-4">
-                  {truncateContent(note.content || "Aucun contenu")}
-                </p>
-                <div className="flex items-center text-xs text-muted-foreground">
-                  <Clock className="mr-1 h-3 w-3" />
-                  Mis à jour {new Date(note.updated_at).toLocaleDateString('fr-FR')}
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                  <CardTitle className="text-lg group-hover:text-primary transition-colors">
+                    {note.title}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {note.content ? (
+                    <p className="text-muted-foreground text-sm line-clamp-3 mb-4">
+                      {excerpt(note.content)}
+                    </p>
+                  ) : (
+                    <p className="text-muted-foreground text-sm mb-4">{t('common.noContent')}</p>
+                  )}
+                  <div className="flex items-center text-xs text-muted-foreground">
+                    <Clock className="mr-1 h-3 w-3" />
+                    {t('common.updatedOn', { date: formatDate(note.updated_at) })}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
       )}
     </div>
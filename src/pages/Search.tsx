@@ -0,0 +1,132 @@
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  BookOpen,
+  FileText,
+  File,
+  Search as SearchIcon,
+  Loader2
+} from "lucide-react";
+import { useI18n } from "@/hooks/use-i18n";
+import { useSearch, type SearchHit, type SearchKind } from "@/hooks/use-search";
+import { useThemePreference } from "@/hooks/use-theme-preference";
+import { readableCourseColor } from "@/lib/utils";
+
+const kindIcons: Record<SearchKind, typeof BookOpen> = {
+  course: BookOpen,
+  note: FileText,
+  file: File,
+};
+
+// Snippets come back with <mark> around matches; they are split into text
+// nodes instead of being injected as HTML.
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/<mark>|<\/mark>/);
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-accent/30 text-foreground rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <span key={i}>{part}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export default function Search() {
+  const { t } = useI18n();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') || '';
+  const { results, loading, unavailable, error } = useSearch(query, 50);
+  const { resolvedTheme } = useThemePreference();
+  const navigate = useNavigate();
+
+  const openHit = (hit: SearchHit) => {
+    switch (hit.kind) {
+      case 'note':
+        navigate(`/courses/${hit.course_id}/notes/${hit.id}`);
+        break;
+      default:
+        navigate(`/courses/${hit.course_id}`);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+          {t('search.title')}
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          {t('search.subtitle')}
+        </p>
+      </div>
+
+      <div className="relative max-w-2xl">
+        <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          autoFocus
+          placeholder={t('search.placeholder')}
+          value={query}
+          onChange={(e) => setSearchParams(e.target.value ? { q: e.target.value } : {}, { replace: true })}
+          className="pl-10"
+        />
+        {loading && (
+          <Loader2 className="absolute right-3 top-1/2 transform -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />
+        )}
+      </div>
+
+      {error ? (
+        <p className="text-destructive text-sm">{t('search.error')}</p>
+      ) : unavailable ? (
+        <p className="text-muted-foreground text-sm">{t('search.offline')}</p>
+      ) : !query.trim() ? null : !loading && results.length === 0 ? (
+        <Card className="shadow-card border-0">
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <SearchIcon className="h-16 w-16 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">{t('search.noResults')}</h3>
+            <p className="text-muted-foreground text-center">
+              {t('search.noResultsDescription')}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {results.map((hit) => {
+            const kind = hit.kind as SearchKind;
+            const Icon = kindIcons[kind] || FileText;
+            return (
+              <Card
+                key={`${hit.kind}-${hit.id}`}
+                className="shadow-card border-0 hover:shadow-glow transition-all cursor-pointer"
+                onClick={() => openHit(hit)}
+              >
+                <CardContent className="p-4">
+                  <div className="flex items-start space-x-3">
+                    <Icon className="h-5 w-5 mt-0.5" style={{ color: hit.color ? readableCourseColor(hit.color, resolvedTheme) : undefined }} />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h4 className="font-medium truncate">{hit.title}</h4>
+                        <Badge variant="secondary">{t(`kind.${kind}`)}</Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
+                        <HighlightedSnippet snippet={hit.snippet} />
+                      </p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,554 @@
+import { useState, useEffect, useRef } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  AlertTriangle,
+  Camera,
+  KeyRound,
+  Loader2,
+  Mail,
+  Palette,
+  User
+} from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useProfile, useUpdateProfile } from "@/hooks/use-profile";
+import { useI18n } from "@/hooks/use-i18n";
+import { THEMES, isTheme, useThemePreference } from "@/hooks/use-theme-preference";
+import CourseColorPicker from "@/components/CourseColorPicker";
+import TwoFactorSettings from "@/components/TwoFactorSettings";
+import { courseColors } from "@/lib/utils";
+import { LOCALES, isLocale } from "@/lib/i18n";
+
+const MAX_AVATAR_SIZE = 2 * 1024 * 1024;
+const MIN_PASSWORD_LENGTH = 6;
+
+const initialsOf = (name: string) =>
+  name
+    .split(/[\s@._-]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('');
+
+export default function Settings() {
+  const { user } = useAuth();
+  const { profile, loading } = useProfile();
+  const { mutateAsync: updateProfile } = useUpdateProfile();
+  const { locale, setLocale, t, formatFileSize } = useI18n();
+  const { theme, setTheme } = useThemePreference();
+  const [displayName, setDisplayName] = useState("");
+  const [savingProfile, setSavingProfile] = useState(false);
+  const [uploadingAvatar, setUploadingAvatar] = useState(false);
+  const [newEmail, setNewEmail] = useState("");
+  const [savingEmail, setSavingEmail] = useState(false);
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [savingPassword, setSavingPassword] = useState(false);
+  const [deleteConfirmation, setDeleteConfirmation] = useState("");
+  const [deletingAccount, setDeletingAccount] = useState(false);
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+  const navigate = useNavigate();
+  const deleteConfirmationWord = t('settings.deleteAccountWord');
+
+  useEffect(() => {
+    setDisplayName(profile?.display_name || "");
+  }, [profile?.display_name]);
+
+  const saveDisplayName = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingProfile(true);
+
+    try {
+      await updateProfile({ display_name: displayName.trim() || null });
+      toast({
+        title: t('settings.profileUpdated'),
+        description: t('settings.profileUpdatedDescription'),
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('settings.profileError'),
+      });
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  const uploadAvatar = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('settings.avatarNotImage'),
+      });
+      return;
+    }
+
+    if (file.size > MAX_AVATAR_SIZE) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('settings.avatarTooLarge', { size: formatFileSize(MAX_AVATAR_SIZE) }),
+      });
+      return;
+    }
+
+    setUploadingAvatar(true);
+
+    try {
+      const filePath = `${user.id}/avatar`;
+      const { error: uploadError } = await supabase.storage
+        .from('avatars')
+        .upload(filePath, file, { upsert: true, contentType: file.type });
+
+      if (uploadError) throw uploadError;
+
+      const { data: { publicUrl } } = supabase.storage
+        .from('avatars')
+        .getPublicUrl(filePath);
+
+      // The path never changes, so bust cached copies of the previous avatar.
+      await updateProfile({ avatar_url: `${publicUrl}?v=${Date.now()}` });
+
+      toast({
+        title: t('settings.avatarUpdated'),
+        description: t('settings.avatarUpdatedDescription'),
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('settings.avatarUploadError'),
+      });
+    } finally {
+      setUploadingAvatar(false);
+    }
+  };
+
+  const removeAvatar = async () => {
+    setUploadingAvatar(true);
+
+    try {
+      const { error } = await supabase.storage
+        .from('avatars')
+        .remove([`${user.id}/avatar`]);
+
+      if (error) throw error;
+
+      await updateProfile({ avatar_url: null });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('settings.avatarRemoveError'),
+      });
+    } finally {
+      setUploadingAvatar(false);
+    }
+  };
+
+  const changeEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newEmail.trim() || newEmail.trim() === user.email) return;
+
+    setSavingEmail(true);
+    const { error } = await supabase.auth.updateUser(
+      { email: newEmail.trim() },
+      { emailRedirectTo: `${window.location.origin}/settings` }
+    );
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: error.message,
+      });
+    } else {
+      setNewEmail("");
+      toast({
+        title: t('settings.emailSent'),
+        description: t('settings.emailSentDescription'),
+      });
+    }
+    setSavingEmail(false);
+  };
+
+  const changePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('password.tooShort', { length: MIN_PASSWORD_LENGTH }),
+      });
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('password.mismatch'),
+      });
+      return;
+    }
+
+    setSavingPassword(true);
+    const { error } = await supabase.auth.updateUser({ password: newPassword });
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: error.message,
+      });
+    } else {
+      setNewPassword("");
+      setConfirmPassword("");
+      toast({
+        title: t('password.updated'),
+        description: t('password.updatedDescription'),
+      });
+    }
+    setSavingPassword(false);
+  };
+
+  const savePreference = async (changes: Parameters<typeof updateProfile>[0]) => {
+    try {
+      await updateProfile(changes);
+      toast({
+        title: t('settings.preferencesSaved'),
+        description: t('settings.preferencesSavedDescription'),
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('settings.preferencesError'),
+      });
+    }
+  };
+
+  const deleteAccount = async (e: React.MouseEvent) => {
+    // Keep the dialog open until the deletion has completed.
+    e.preventDefault();
+    setDeletingAccount(true);
+
+    try {
+      const { error } = await supabase.functions.invoke('delete-account');
+      if (error) throw error;
+
+      await supabase.auth.signOut();
+      toast({
+        title: t('settings.accountDeleted'),
+        description: t('settings.accountDeletedDescription'),
+      });
+      navigate('/auth');
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('settings.deleteAccountError'),
+      });
+      setDeletingAccount(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-2xl mx-auto space-y-6">
+        {[...Array(3)].map((_, i) => (
+          <Card key={i} className="animate-pulse shadow-card border-0">
+            <CardContent className="p-6">
+              <div className="h-4 bg-muted rounded w-1/3 mb-4"></div>
+              <div className="h-10 bg-muted rounded w-full"></div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+          {t('settings.title')}
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          {t('settings.subtitle')}
+        </p>
+      </div>
+
+      {/* Profile */}
+      <Card className="shadow-card border-0">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <User className="h-5 w-5" />
+            {t('settings.profile')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-center gap-4">
+            <Avatar className="h-20 w-20">
+              <AvatarImage src={profile?.avatar_url || undefined} alt={displayName} />
+              <AvatarFallback className="bg-gradient-primary text-white text-xl">
+                {initialsOf(profile?.display_name || user.email || '')}
+              </AvatarFallback>
+            </Avatar>
+            <div className="flex flex-wrap gap-2">
+              <input
+                ref={avatarInputRef}
+                type="file"
+                accept="image/*"
+                onChange={uploadAvatar}
+                className="hidden"
+              />
+              <Button
+                variant="outline"
+                onClick={() => avatarInputRef.current?.click()}
+                disabled={uploadingAvatar}
+              >
+                {uploadingAvatar ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Camera className="mr-2 h-4 w-4" />
+                )}
+                {t('settings.changeAvatar')}
+              </Button>
+              {profile?.avatar_url && (
+                <Button variant="ghost" onClick={removeAvatar} disabled={uploadingAvatar}>
+                  {t('settings.removeAvatar')}
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <form onSubmit={saveDisplayName} className="space-y-2">
+            <Label htmlFor="display-name">{t('settings.displayName')}</Label>
+            <div className="flex gap-2">
+              <Input
+                id="display-name"
+                placeholder={t('settings.displayNamePlaceholder')}
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+              />
+              <Button
+                type="submit"
+                disabled={savingProfile || displayName.trim() === (profile?.display_name || '')}
+                className="bg-gradient-primary hover:opacity-90 shadow-glow"
+              >
+                {savingProfile ? t('settings.saving') : t('settings.save')}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Account */}
+      <Card className="shadow-card border-0">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Mail className="h-5 w-5" />
+            {t('settings.email')}
+          </CardTitle>
+          <CardDescription>
+            {t('settings.currentEmail', { email: user.email })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={changeEmail} className="space-y-2">
+            <Label htmlFor="new-email">{t('settings.newEmail')}</Label>
+            <div className="flex gap-2">
+              <Input
+                id="new-email"
+                type="email"
+                placeholder={t('settings.emailPlaceholder')}
+                value={newEmail}
+                onChange={(e) => setNewEmail(e.target.value)}
+              />
+              <Button type="submit" variant="outline" disabled={savingEmail || !newEmail.trim()}>
+                {savingEmail && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('settings.changeEmail')}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-card border-0">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            {t('settings.password')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={changePassword} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="new-password">{t('password.new')}</Label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">{t('password.confirm')}</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+              />
+            </div>
+            <Button type="submit" variant="outline" disabled={savingPassword || !newPassword}>
+              {savingPassword && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('settings.changePassword')}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <TwoFactorSettings />
+
+      {/* Preferences */}
+      <Card className="shadow-card border-0">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Palette className="h-5 w-5" />
+            {t('settings.preferences')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-3">
+            <Label>{t('settings.defaultColor')}</Label>
+            <CourseColorPicker
+              value={profile?.default_course_color || courseColors[0]}
+              onChange={(color) => savePreference({ default_course_color: color })}
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>{t('locale.label')}</Label>
+              <Select
+                value={locale}
+                onValueChange={(language) => isLocale(language) && setLocale(language)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LOCALES.map((option) => (
+                    <SelectItem key={option} value={option}>{t(`locale.${option}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('theme.label')}</Label>
+              <Select
+                value={theme}
+                onValueChange={(next) => isTheme(next) && setTheme(next)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {THEMES.map((option) => (
+                    <SelectItem key={option} value={option}>{t(`theme.${option}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Danger zone */}
+      <Card className="shadow-card border border-destructive/50">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-destructive">
+            <AlertTriangle className="h-5 w-5" />
+            {t('settings.dangerZone')}
+          </CardTitle>
+          <CardDescription>
+            {t('settings.dangerZoneDescription')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AlertDialog
+            onOpenChange={(open) => {
+              if (!open) setDeleteConfirmation("");
+            }}
+          >
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive">{t('settings.deleteAccount')}</Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>{t('settings.deleteAccountTitle')}</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {t('settings.deleteAccountDescription', { word: deleteConfirmationWord })}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <Input
+                value={deleteConfirmation}
+                onChange={(e) => setDeleteConfirmation(e.target.value)}
+                placeholder={deleteConfirmationWord}
+                disabled={deletingAccount}
+              />
+              <AlertDialogFooter>
+                <AlertDialogCancel disabled={deletingAccount}>{t('common.cancel')}</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={deleteAccount}
+                  disabled={deletingAccount || deleteConfirmation !== deleteConfirmationWord}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  {deletingAccount && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {t('settings.deleteAccountConfirm')}
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/use-i18n";
+import { useCourses } from "@/hooks/use-courses";
+import { useUploadQueue, type UploadStatus } from "@/hooks/use-upload-queue";
+import UploadList from "@/components/UploadList";
+import { ArrowLeft, File, Loader2, Upload } from "lucide-react";
+import { clearSharedFiles, getSharedFiles } from "@/lib/shared-files";
+
+const BUSY_STATUSES: UploadStatus[] = ['queued', 'hashing', 'uploading', 'duplicate'];
+
+// Landing page of the share target: PDFs shared from the OS are uploaded into
+// the course the user picks, through the same queue and duplicate check as
+// any other upload. They stay shared until every one of them is in the course.
+export default function Share() {
+  const [files, setFiles] = useState<File[] | null>(null);
+  const [courseId, setCourseId] = useState("");
+  const [submitted, setSubmitted] = useState(false);
+  const { t, formatFileSize } = useI18n();
+  const { data: courses = [], isLoading: coursesLoading } = useCourses();
+  const uploads = useUploadQueue(courseId || undefined);
+  const navigate = useNavigate();
+
+  const sharedUploads = uploads.items.filter(item => item.file && files?.includes(item.file));
+  const uploading = submitted && sharedUploads.some(item => BUSY_STATUSES.includes(item.status));
+  const settled = submitted && sharedUploads.length > 0 && !uploading;
+  const doneCount = sharedUploads.filter(item => item.status === 'done').length;
+  const failedCount = sharedUploads.filter(item => item.status === 'error').length;
+
+  useEffect(() => {
+    getSharedFiles()
+      .then(setFiles)
+      .catch(() => setFiles([]));
+  }, []);
+
+  useEffect(() => {
+    if (!courseId && courses.length > 0) {
+      setCourseId(courses[0].id);
+    }
+  }, [courses, courseId]);
+
+  const cancel = async () => {
+    await clearSharedFiles();
+    navigate('/');
+  };
+
+  const uploadFiles = () => {
+    if (!files || !courseId) return;
+    setSubmitted(true);
+    uploads.addFiles(files.map(file => ({ file, path: file.name })));
+  };
+
+  // Failed uploads can be retried from the list; canceled ones are dropped.
+  useEffect(() => {
+    if (!settled) return;
+
+    if (failedCount > 0) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('share.error'),
+      });
+      return;
+    }
+
+    clearSharedFiles().catch(() => undefined);
+    if (doneCount > 0) {
+      toast({
+        title: t('share.added', { count: doneCount }),
+        description: t('share.addedDescription', { count: doneCount }),
+      });
+    }
+    navigate(`/courses/${courseId}`);
+  }, [settled, failedCount, doneCount, courseId, navigate, t]);
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <div className="flex items-center space-x-4">
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={cancel}
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+            {t('share.title')}
+          </h1>
+          <p className="text-muted-foreground">
+            {t('share.subtitle')}
+          </p>
+        </div>
+      </div>
+
+      <Card className="shadow-card border-0">
+        <CardHeader>
+          <CardTitle>{t('share.files')}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {files === null ? (
+            <div className="h-12 bg-muted rounded animate-pulse"></div>
+          ) : files.length === 0 ? (
+            <div className="text-center py-6">
+              <p className="text-muted-foreground mb-4">{t('share.none')}</p>
+              <Button variant="outline" onClick={() => navigate('/')}>
+                {t('share.backToDashboard')}
+              </Button>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-2">
+                {files.map((file, index) => (
+                  <div key={index} className="flex items-center gap-3 p-3 border rounded-lg">
+                    <File className="h-5 w-5 text-muted-foreground" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{file.name}</p>
+                      <p className="text-xs text-muted-foreground">{formatFileSize(file.size)}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <Label>{t('share.course')}</Label>
+                {!coursesLoading && courses.length === 0 ? (
+                  <div className="flex items-center justify-between p-3 border rounded-lg">
+                    <p className="text-sm text-muted-foreground">{t('share.noCourses')}</p>
+                    <Button variant="outline" size="sm" onClick={() => navigate('/courses/new')}>
+                      {t('common.createCourse')}
+                    </Button>
+                  </div>
+                ) : (
+                  <Select value={courseId} onValueChange={setCourseId} disabled={coursesLoading || submitted}>
+                    <SelectTrigger>
+                      <SelectValue placeholder={t('share.pickCourse')} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {courses.map((course) => (
+                        <SelectItem key={course.id} value={course.id}>
+                          <div className="flex items-center gap-2">
+                            <div
+                              className="w-3 h-3 rounded-full"
+                              style={{ backgroundColor: course.color }}
+                            />
+                            {course.title}
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+
+              <UploadList
+                items={sharedUploads}
+                onCancel={uploads.cancel}
+                onRetry={uploads.retry}
+                onLinkDuplicate={uploads.linkDuplicate}
+                onUploadAnyway={uploads.uploadAnyway}
+                onRetryFailed={uploads.retryFailed}
+                onClearFinished={uploads.clearFinished}
+              />
+
+              <div className="flex space-x-4">
+                <Button
+                  variant="outline"
+                  onClick={cancel}
+                  disabled={uploading}
+                  className="flex-1"
+                >
+                  {t('common.cancel')}
+                </Button>
+                <Button
+                  onClick={uploadFiles}
+                  disabled={submitted || !courseId}
+                  className="flex-1 bg-gradient-primary hover:opacity-90 shadow-glow"
+                >
+                  {uploading ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Upload className="mr-2 h-4 w-4" />
+                  )}
+                  {t('share.add')}
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  BookOpen,
+  FileText,
+  File,
+  RotateCcw,
+  Trash2
+} from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useI18n } from "@/hooks/use-i18n";
+import {
+  tableFor,
+  useDeleteForever,
+  useRestoreFromTrash,
+  useTrash,
+  type TrashItem,
+  type TrashKind
+} from "@/hooks/use-trash";
+
+const RETENTION_DAYS = 30;
+
+const kindIcons: Record<TrashKind, typeof BookOpen> = {
+  course: BookOpen,
+  note: FileText,
+  file: File,
+};
+
+export default function Trash() {
+  const { t, formatDate } = useI18n();
+  const { data: items = [], isLoading: loading } = useTrash();
+  const restoreFromTrash = useRestoreFromTrash();
+  const deleteItemForever = useDeleteForever();
+
+  const restoreItem = async (item: TrashItem) => {
+    try {
+      await restoreFromTrash.mutateAsync({ table: tableFor(item.kind), id: item.id });
+
+      toast({
+        title: t('trash.restored'),
+        description: t('trash.restoredDescription', { title: item.title }),
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('trash.restoreError'),
+      });
+    }
+  };
+
+  const deleteForever = async (item: TrashItem) => {
+    try {
+      await deleteItemForever.mutateAsync(item);
+
+      toast({
+        title: t('trash.deleted'),
+        description: t('trash.deletedDescription', { title: item.title }),
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: t('common.error'),
+        description: t('trash.deleteError'),
+      });
+    }
+  };
+
+  const daysLeft = (deletedAt: string) => {
+    const elapsed = (Date.now() - new Date(deletedAt).getTime()) / (24 * 60 * 60 * 1000);
+    return Math.max(0, Math.ceil(RETENTION_DAYS - elapsed));
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(4)].map((_, i) => (
+          <Card key={i} className="animate-pulse shadow-card border-0">
+            <CardContent className="p-4">
+              <div className="h-4 bg-muted rounded w-1/3 mb-2"></div>
+              <div className="h-4 bg-muted rounded w-1/4"></div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+          {t('trash.title')}
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          {t('trash.subtitle', { days: RETENTION_DAYS })}
+        </p>
+      </div>
+
+      {items.length === 0 ? (
+        <Card className="shadow-card border-0">
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Trash2 className="h-16 w-16 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">{t('trash.empty')}</h3>
+            <p className="text-muted-foreground text-center">
+              {t('trash.emptyDescription')}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {items.map((item) => {
+            const Icon = kindIcons[item.kind];
+            const remaining = daysLeft(item.deleted_at);
+            return (
+              <Card key={`${item.kind}-${item.id}`} className="shadow-card border-0">
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3 min-w-0">
+                      <Icon className="h-8 w-8 shrink-0" style={{ color: item.color || undefined }} />
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <h4 className="font-medium truncate">{item.title}</h4>
+                          <Badge variant="secondary">{t(`kind.${item.kind}`)}</Badge>
+                        </div>
+                        <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+                          {item.courseTitle && (
+                            <>
+                              <span>{item.courseTitle}</span>
+                              <span>•</span>
+                            </>
+                          )}
+                          <span>{t('trash.deletedOn', { date: formatDate(item.deleted_at) })}</span>
+                          <span>•</span>
+                          <span>{t('trash.daysLeft', { count: remaining })}</span>
+                        </div>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => restoreItem(item)}>
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        {t('trash.restore')}
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="hover:bg-destructive hover:text-destructive-foreground"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>{t('trash.deleteTitle')}</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              {item.kind === 'course'
+                                ? t('trash.deleteCourseDescription', { title: item.title })
+                                : t('trash.deleteDescription', { title: item.title })}
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => deleteForever(item)}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              {t('trash.deleteForever')}
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+/// <reference lib="webworker" />
+import { cleanupOutdatedCaches, createHandlerBoundToURL, precacheAndRoute } from "workbox-precaching"
+import { NavigationRoute, registerRoute } from "workbox-routing"
+import { SHARE_PAGE_PATH, SHARE_TARGET_PATH, storeSharedFiles } from "./lib/shared-files"
+
+declare const self: ServiceWorkerGlobalScope
+
+// The built app shell, so that the app starts without a network. Data comes
+// from the IndexedDB mirror kept by the app itself.
+precacheAndRoute(self.__WB_MANIFEST)
+cleanupOutdatedCaches()
+
+// Every route is rendered by the single page app.
+registerRoute(new NavigationRoute(createHandlerBoundToURL("index.html")))
+
+// PDFs shared from the OS are posted here (see share_target in the manifest)
+// and handed over to the share page, which uploads them.
+registerRoute(
+  ({ url }) => url.pathname === SHARE_TARGET_PATH,
+  async ({ request }) => {
+    const formData = await request.formData()
+    const files = formData.getAll("files").filter((file): file is File => file instanceof File)
+    await storeSharedFiles(files)
+    return Response.redirect(SHARE_PAGE_PATH, 303)
+  },
+  "POST"
+)
+
+// A new version waits until the user accepts to reload.
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") {
+    self.skipWaiting()
+  }
+})
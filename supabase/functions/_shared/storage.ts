@@ -0,0 +1,48 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export const BUCKET = 'course-files';
+export const AVATARS_BUCKET = 'avatars';
+
+const LIST_PAGE_SIZE = 1000;
+const REMOVE_BATCH_SIZE = 1000;
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Lists every object below a prefix, walking into sub-folders.
+export async function listObjects(client: SupabaseClient, prefix: string, bucket = BUCKET): Promise<string[]> {
+  const paths: string[] = [];
+  let offset = 0;
+
+  while (true) {
+    const { data, error } = await client.storage
+      .from(bucket)
+      .list(prefix, { limit: LIST_PAGE_SIZE, offset });
+
+    if (error) throw error;
+    if (!data || data.length === 0) break;
+
+    for (const entry of data) {
+      const path = `${prefix}/${entry.name}`;
+      // Folders are returned without an id.
+      if (entry.id === null) {
+        paths.push(...await listObjects(client, path, bucket));
+      } else {
+        paths.push(path);
+      }
+    }
+
+    if (data.length < LIST_PAGE_SIZE) break;
+    offset += data.length;
+  }
+
+  return paths;
+}
+
+export async function removeObjects(client: SupabaseClient, paths: string[], bucket = BUCKET) {
+  for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+    const { error } = await client.storage
+      .from(bucket)
+      .remove(paths.slice(i, i + REMOVE_BATCH_SIZE));
+    if (error) throw error;
+  }
+}
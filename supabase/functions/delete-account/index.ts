@@ -0,0 +1,67 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AVATARS_BUCKET, BUCKET, listObjects, removeObjects } from "../_shared/storage.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Assurance level of the session the access token belongs to. The token
+// must have been verified first, e.g. by auth.getUser().
+const assuranceLevel = (authorization: string) => {
+  const payload = authorization.replace(/^Bearer /, '').split('.')[1]
+    .replace(/-/g, '+')
+    .replace(/_/g, '/');
+  return JSON.parse(atob(payload.padEnd(Math.ceil(payload.length / 4) * 4, '='))).aal;
+};
+
+// Deletes the calling user's account together with all of their data.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authorization = req.headers.get('Authorization')!;
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: authorization } },
+    });
+    const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    // A password alone must not be enough to destroy an account protected
+    // by two-factor authentication.
+    const enrolled = (user.factors || []).some((factor) => factor.status === 'verified');
+    if (enrolled && assuranceLevel(authorization) !== 'aal2') {
+      return json({ error: 'Two-factor authentication required' }, 403);
+    }
+
+    // Every object is stored below the user's id in both buckets.
+    const files = await listObjects(admin, user.id, BUCKET);
+    const avatars = await listObjects(admin, user.id, AVATARS_BUCKET);
+
+    await removeObjects(admin, files, BUCKET);
+    await removeObjects(admin, avatars, AVATARS_BUCKET);
+
+    // Courses, notes, files and the profile are removed by ON DELETE CASCADE.
+    const { error: deleteError } = await admin.auth.admin.deleteUser(user.id);
+    if (deleteError) throw deleteError;
+
+    return json({ deleted_objects: files.length + avatars.length });
+  } catch (error) {
+    console.error('Error deleting account:', error);
+    return json({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
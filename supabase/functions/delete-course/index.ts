@@ -0,0 +1,93 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { listObjects, removeObjects } from "../_shared/storage.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { course_id } = await req.json();
+    if (!course_id) {
+      return json({ error: 'course_id is required' }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization')! } },
+    });
+    const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    // Reading through the user client enforces RLS ownership.
+    const { data: course, error: courseError } = await userClient
+      .from('courses')
+      .select('id, deleted_at')
+      .eq('id', course_id)
+      .maybeSingle();
+
+    if (courseError) throw courseError;
+    if (!course) {
+      return json({ error: 'Course not found' }, 404);
+    }
+
+    // The course goes to the trash first. If anything below fails, it is no
+    // longer listed with its files half removed, and deleting it again from
+    // the trash retries. This also checks the user may write it before any
+    // object is touched.
+    if (!course.deleted_at) {
+      const { error: trashError } = await userClient
+        .from('courses')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', course_id);
+
+      if (trashError) throw trashError;
+    }
+
+    const { data: files, error: filesError } = await userClient
+      .from('course_files')
+      .select('file_path')
+      .eq('course_id', course_id);
+
+    if (filesError) throw filesError;
+
+    const paths = new Set([
+      ...(files || []).map((file) => file.file_path),
+      ...await listObjects(admin, `${user.id}/${course_id}`),
+    ]);
+
+    // Storage is cleaned up before the row is deleted: removal is idempotent,
+    // so a failed call leaves the course in the trash and can be retried
+    // without ever leaving objects that no row points to.
+    await removeObjects(admin, [...paths]);
+
+    // Notes and files rows are removed by ON DELETE CASCADE.
+    const { error: deleteError } = await userClient
+      .from('courses')
+      .delete()
+      .eq('id', course_id);
+
+    if (deleteError) throw deleteError;
+
+    return json({ deleted_objects: paths.size });
+  } catch (error) {
+    console.error('Error deleting course:', error);
+    return json({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
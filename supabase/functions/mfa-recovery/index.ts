@@ -0,0 +1,83 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Same normalization as hashRecoveryCode in src/lib/recovery-codes.ts.
+const hashRecoveryCode = async (code: string) => {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Lets a user who lost their authenticator sign in with a recovery code.
+// Every factor is removed, so the session is no longer required to reach
+// aal2 and the user can enroll a new device. All codes are consumed.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { code } = await req.json();
+    if (!code) {
+      return json({ error: 'code is required' }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization')! } },
+    });
+    const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    // The password step has been passed: the session is aal1.
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { data: recoveryCode, error: codeError } = await admin
+      .from('mfa_recovery_codes')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('code_hash', await hashRecoveryCode(code))
+      .maybeSingle();
+
+    if (codeError) throw codeError;
+    if (!recoveryCode) {
+      return json({ error: 'Invalid recovery code' }, 400);
+    }
+
+    const { data: factors, error: factorsError } = await admin.auth.admin.mfa.listFactors({
+      userId: user.id,
+    });
+    if (factorsError) throw factorsError;
+
+    for (const factor of factors.factors) {
+      const { error } = await admin.auth.admin.mfa.deleteFactor({ id: factor.id, userId: user.id });
+      if (error) throw error;
+    }
+
+    // Factors are removed first so that a failure leaves the code usable.
+    const { error: deleteError } = await admin
+      .from('mfa_recovery_codes')
+      .delete()
+      .eq('user_id', user.id);
+
+    if (deleteError) throw deleteError;
+
+    return json({ removed_factors: factors.factors.length });
+  } catch (error) {
+    console.error('Error redeeming recovery code:', error);
+    return json({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
@@ -0,0 +1,115 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { listObjects, removeObjects } from "../_shared/storage.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-purge-secret',
+};
+
+const RETENTION_DAYS = 30;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Permanently removes everything that has been in the trash for more than
+// RETENTION_DAYS, for all users. Called daily by pg_cron, with the secret
+// it reads from the vault.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const secret = Deno.env.get('PURGE_TRASH_SECRET');
+  if (!secret || req.headers.get('X-Purge-Secret') !== secret) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data: courses, error: coursesError } = await admin
+      .from('courses')
+      .select('id, user_id')
+      .lt('deleted_at', cutoff);
+
+    if (coursesError) throw coursesError;
+
+    const { data: files, error: filesError } = await admin
+      .from('course_files')
+      .select('id, file_path, course_file_versions ( file_path )')
+      .lt('deleted_at', cutoff);
+
+    if (filesError) throw filesError;
+
+    const paths = new Set<string>();
+    for (const file of files || []) {
+      paths.add(file.file_path);
+      for (const version of file.course_file_versions || []) {
+        paths.add(version.file_path);
+      }
+    }
+    for (const course of courses || []) {
+      for (const path of await listObjects(admin, `${course.user_id}/${course.id}`)) {
+        paths.add(path);
+      }
+    }
+
+    // Files linked to one another share their object: it stays as long as
+    // a file that is not purged still uses it.
+    const { data: referenced, error: referencedError } = await admin.rpc(
+      'referenced_course_file_paths',
+      {
+        paths: [...paths],
+        deleted_file_ids: (files || []).map((file) => file.id),
+        deleted_course_ids: (courses || []).map((course) => course.id),
+      }
+    );
+
+    if (referencedError) throw referencedError;
+
+    const kept = new Set<string>(referenced || []);
+    const removable = [...paths].filter((path) => !kept.has(path));
+
+    // Objects go first so a failed run never leaves unreachable files behind;
+    // the next run simply picks up the same rows again.
+    await removeObjects(admin, removable);
+
+    const { error: deleteFilesError } = await admin
+      .from('course_files')
+      .delete()
+      .lt('deleted_at', cutoff);
+
+    if (deleteFilesError) throw deleteFilesError;
+
+    const { error: deleteNotesError } = await admin
+      .from('course_notes')
+      .delete()
+      .lt('deleted_at', cutoff);
+
+    if (deleteNotesError) throw deleteNotesError;
+
+    const { error: deleteCoursesError } = await admin
+      .from('courses')
+      .delete()
+      .lt('deleted_at', cutoff);
+
+    if (deleteCoursesError) throw deleteCoursesError;
+
+    return json({
+      purged_courses: courses?.length || 0,
+      purged_files: files?.length || 0,
+      deleted_objects: removable.length,
+    });
+  } catch (error) {
+    console.error('Error purging trash:', error);
+    return json({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
@@ -0,0 +1,56 @@
+-- Create course_note_revisions table to keep previous versions of notes
+CREATE TABLE public.course_note_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  note_id UUID NOT NULL REFERENCES public.course_notes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  content TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX course_note_revisions_note_id_idx
+  ON public.course_note_revisions (note_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.course_note_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for course_note_revisions
+CREATE POLICY "Users can view their own course note revisions" 
+ON public.course_note_revisions 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own course note revisions" 
+ON public.course_note_revisions 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own course note revisions" 
+ON public.course_note_revisions 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create function to snapshot the previous version of a note. Autosave
+-- writes about once a second while typing, so at most one revision is kept
+-- every 10 minutes of editing.
+CREATE OR REPLACE FUNCTION public.record_course_note_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (OLD.title IS DISTINCT FROM NEW.title OR OLD.content IS DISTINCT FROM NEW.content)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.course_note_revisions
+      WHERE note_id = OLD.id AND created_at > OLD.updated_at - INTERVAL '10 minutes'
+    )
+  THEN
+    INSERT INTO public.course_note_revisions (note_id, user_id, title, content, created_at)
+    VALUES (OLD.id, OLD.user_id, OLD.title, OLD.content, OLD.updated_at);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Create trigger to record a revision on every note update
+CREATE TRIGGER record_course_note_revision
+  AFTER UPDATE ON public.course_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_course_note_revision();
@@ -0,0 +1,97 @@
+-- Enable accent-insensitive full-text search
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+
+-- Create a French text search configuration that ignores accents
+CREATE TEXT SEARCH CONFIGURATION public.french_unaccent (COPY = pg_catalog.french);
+
+ALTER TEXT SEARCH CONFIGURATION public.french_unaccent
+  ALTER MAPPING FOR hword, hword_part, word
+  WITH extensions.unaccent, french_stem;
+
+-- Create full-text indexes
+CREATE INDEX courses_search_idx ON public.courses
+USING GIN (to_tsvector('public.french_unaccent'::regconfig, title || ' ' || coalesce(description, '')));
+
+CREATE INDEX course_notes_search_idx ON public.course_notes
+USING GIN (to_tsvector('public.french_unaccent'::regconfig, title || ' ' || coalesce(content, '')));
+
+CREATE INDEX course_files_search_idx ON public.course_files
+USING GIN (to_tsvector('public.french_unaccent'::regconfig, filename));
+
+-- Create function to search courses, notes and files of the current user
+CREATE OR REPLACE FUNCTION public.search_everything(search_query TEXT, max_results INTEGER DEFAULT 20)
+RETURNS TABLE (
+  kind TEXT,
+  id UUID,
+  course_id UUID,
+  title TEXT,
+  snippet TEXT,
+  color TEXT,
+  rank REAL
+) AS $$
+DECLARE
+  query tsquery;
+  prefix_terms TEXT;
+BEGIN
+  -- Every term is matched as a prefix so results show up while typing.
+  SELECT string_agg(quote_literal(lexeme) || ':*', ' & ')
+  INTO prefix_terms
+  FROM unnest(tsvector_to_array(to_tsvector('public.french_unaccent'::regconfig, search_query))) AS lexeme;
+
+  IF prefix_terms IS NULL THEN
+    RETURN;
+  END IF;
+
+  query := to_tsquery('public.french_unaccent'::regconfig, prefix_terms);
+
+  RETURN QUERY
+  SELECT * FROM (
+    SELECT
+      'course'::TEXT,
+      c.id,
+      c.id,
+      c.title,
+      ts_headline('public.french_unaccent'::regconfig, coalesce(c.description, c.title), query,
+        'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=5'),
+      c.color,
+      ts_rank(to_tsvector('public.french_unaccent'::regconfig, c.title || ' ' || coalesce(c.description, '')), query)
+    FROM public.courses c
+    WHERE c.user_id = auth.uid()
+      AND to_tsvector('public.french_unaccent'::regconfig, c.title || ' ' || coalesce(c.description, '')) @@ query
+
+    UNION ALL
+
+    SELECT
+      'note'::TEXT,
+      n.id,
+      n.course_id,
+      n.title,
+      ts_headline('public.french_unaccent'::regconfig, coalesce(nullif(n.content, ''), n.title), query,
+        'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=5'),
+      c.color,
+      ts_rank(to_tsvector('public.french_unaccent'::regconfig, n.title || ' ' || coalesce(n.content, '')), query)
+    FROM public.course_notes n
+    JOIN public.courses c ON c.id = n.course_id
+    WHERE n.user_id = auth.uid()
+      AND to_tsvector('public.french_unaccent'::regconfig, n.title || ' ' || coalesce(n.content, '')) @@ query
+
+    UNION ALL
+
+    SELECT
+      'file'::TEXT,
+      f.id,
+      f.course_id,
+      f.filename,
+      ts_headline('public.french_unaccent'::regconfig, f.filename, query,
+        'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+      c.color,
+      ts_rank(to_tsvector('public.french_unaccent'::regconfig, f.filename), query)
+    FROM public.course_files f
+    JOIN public.courses c ON c.id = f.course_id
+    WHERE f.user_id = auth.uid()
+      AND to_tsvector('public.french_unaccent'::regconfig, f.filename) @@ query
+  ) AS hits
+  ORDER BY 7 DESC
+  LIMIT max_results;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
@@ -0,0 +1,146 @@
+-- Add soft delete support to courses, notes and files
+ALTER TABLE public.courses ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.course_notes ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.course_files ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX courses_deleted_at_idx ON public.courses (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX course_notes_deleted_at_idx ON public.course_notes (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX course_files_deleted_at_idx ON public.course_files (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Create function to move the notes and files of a course along with it.
+-- Restoring a course only restores the children trashed at the same time.
+CREATE OR REPLACE FUNCTION public.cascade_course_soft_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.deleted_at IS NOT DISTINCT FROM OLD.deleted_at THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    UPDATE public.course_notes SET deleted_at = NEW.deleted_at
+    WHERE course_id = NEW.id AND deleted_at IS NULL;
+
+    UPDATE public.course_files SET deleted_at = NEW.deleted_at
+    WHERE course_id = NEW.id AND deleted_at IS NULL;
+  ELSE
+    UPDATE public.course_notes SET deleted_at = NULL
+    WHERE course_id = NEW.id AND deleted_at = OLD.deleted_at;
+
+    UPDATE public.course_files SET deleted_at = NULL
+    WHERE course_id = NEW.id AND deleted_at = OLD.deleted_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER cascade_course_soft_delete
+  AFTER UPDATE OF deleted_at ON public.courses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.cascade_course_soft_delete();
+
+-- Exclude trashed items from search
+CREATE OR REPLACE FUNCTION public.search_everything(search_query TEXT, max_results INTEGER DEFAULT 20)
+RETURNS TABLE (
+  kind TEXT,
+  id UUID,
+  course_id UUID,
+  title TEXT,
+  snippet TEXT,
+  color TEXT,
+  rank REAL
+) AS $$
+DECLARE
+  query tsquery;
+  prefix_terms TEXT;
+BEGIN
+  -- Every term is matched as a prefix so results show up while typing.
+  SELECT string_agg(quote_literal(lexeme) || ':*', ' & ')
+  INTO prefix_terms
+  FROM unnest(tsvector_to_array(to_tsvector('public.french_unaccent'::regconfig, search_query))) AS lexeme;
+
+  IF prefix_terms IS NULL THEN
+    RETURN;
+  END IF;
+
+  query := to_tsquery('public.french_unaccent'::regconfig, prefix_terms);
+
+  RETURN QUERY
+  SELECT * FROM (
+    SELECT
+      'course'::TEXT,
+      c.id,
+      c.id,
+      c.title,
+      ts_headline('public.french_unaccent'::regconfig, coalesce(c.description, c.title), query,
+        'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=5'),
+      c.color,
+      ts_rank(to_tsvector('public.french_unaccent'::regconfig, c.title || ' ' || coalesce(c.description, '')), query)
+    FROM public.courses c
+    WHERE c.user_id = auth.uid()
+      AND c.deleted_at IS NULL
+      AND to_tsvector('public.french_unaccent'::regconfig, c.title || ' ' || coalesce(c.description, '')) @@ query
+
+    UNION ALL
+
+    SELECT
+      'note'::TEXT,
+      n.id,
+      n.course_id,
+      n.title,
+      ts_headline('public.french_unaccent'::regconfig, coalesce(nullif(n.content, ''), n.title), query,
+        'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=5'),
+      c.color,
+      ts_rank(to_tsvector('public.french_unaccent'::regconfig, n.title || ' ' || coalesce(n.content, '')), query)
+    FROM public.course_notes n
+    JOIN public.courses c ON c.id = n.course_id
+    WHERE n.user_id = auth.uid()
+      AND n.deleted_at IS NULL
+      AND to_tsvector('public.french_unaccent'::regconfig, n.title || ' ' || coalesce(n.content, '')) @@ query
+
+    UNION ALL
+
+    SELECT
+      'file'::TEXT,
+      f.id,
+      f.course_id,
+      f.filename,
+      ts_headline('public.french_unaccent'::regconfig, f.filename, query,
+        'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+      c.color,
+      ts_rank(to_tsvector('public.french_unaccent'::regconfig, f.filename), query)
+    FROM public.course_files f
+    JOIN public.courses c ON c.id = f.course_id
+    WHERE f.user_id = auth.uid()
+      AND f.deleted_at IS NULL
+      AND to_tsvector('public.french_unaccent'::regconfig, f.filename) @@ query
+  ) AS hits
+  ORDER BY 7 DESC
+  LIMIT max_results;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Schedule the daily purge of items trashed more than 30 days ago
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- The function only runs when called with the secret it was given as
+-- PURGE_TRASH_SECRET. Store the same value in the vault once per project:
+--   SELECT vault.create_secret('<secret>', 'purge_trash_secret');
+SELECT cron.schedule(
+  'purge-trash-daily',
+  '0 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://saboloxthdyyocppecgw.supabase.co/functions/v1/purge-trash',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'X-Purge-Secret', (
+        SELECT decrypted_secret FROM vault.decrypted_secrets
+        WHERE name = 'purge_trash_secret'
+      )
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,78 @@
+-- Create table for two-factor recovery codes (only SHA-256 hashes are stored)
+CREATE TABLE public.mfa_recovery_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_mfa_recovery_codes_user_id ON public.mfa_recovery_codes(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- Codes can only be managed from a session that passed the two-factor
+-- challenge. Using a code goes through the mfa-recovery edge function.
+CREATE POLICY "Users can view their own recovery codes" 
+ON public.mfa_recovery_codes 
+FOR SELECT 
+USING (auth.uid() = user_id AND (auth.jwt() ->> 'aal') = 'aal2');
+
+CREATE POLICY "Users can create their own recovery codes" 
+ON public.mfa_recovery_codes 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id AND (auth.jwt() ->> 'aal') = 'aal2');
+
+CREATE POLICY "Users can delete their own recovery codes" 
+ON public.mfa_recovery_codes 
+FOR DELETE 
+USING (auth.uid() = user_id AND (auth.jwt() ->> 'aal') = 'aal2');
+
+-- Users with a verified factor must have completed the two-factor challenge
+-- to access their data, whatever the client does.
+CREATE OR REPLACE FUNCTION public.has_required_aal()
+RETURNS BOOLEAN AS $$
+  SELECT (auth.jwt() ->> 'aal') = 'aal2'
+    OR NOT EXISTS (
+      SELECT 1 FROM auth.mfa_factors
+      WHERE user_id = auth.uid() AND status = 'verified'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Require two-factor authentication when enrolled"
+ON public.courses
+AS RESTRICTIVE
+FOR ALL
+USING (public.has_required_aal());
+
+CREATE POLICY "Require two-factor authentication when enrolled"
+ON public.course_notes
+AS RESTRICTIVE
+FOR ALL
+USING (public.has_required_aal());
+
+CREATE POLICY "Require two-factor authentication when enrolled"
+ON public.course_files
+AS RESTRICTIVE
+FOR ALL
+USING (public.has_required_aal());
+
+CREATE POLICY "Require two-factor authentication when enrolled"
+ON public.course_note_revisions
+AS RESTRICTIVE
+FOR ALL
+USING (public.has_required_aal());
+
+CREATE POLICY "Require two-factor authentication when enrolled"
+ON public.profiles
+AS RESTRICTIVE
+FOR ALL
+USING (public.has_required_aal());
+
+-- Stored course files go through the same check: downloads, signed URLs
+-- and resumable uploads are all authorized by these policies.
+CREATE POLICY "Require two-factor authentication when enrolled"
+ON storage.objects
+AS RESTRICTIVE
+FOR ALL
+USING (bucket_id <> 'course-files' OR public.has_required_aal());
@@ -0,0 +1,4 @@
+-- Broadcast changes to courses, notes and files so open clients stay in sync
+ALTER PUBLICATION supabase_realtime ADD TABLE public.courses;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.course_notes;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.course_files;
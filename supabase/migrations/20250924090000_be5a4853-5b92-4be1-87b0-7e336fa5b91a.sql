@@ -0,0 +1,114 @@
+-- Create course_folders table to organize the files of a course
+CREATE TABLE public.course_folders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  parent_id UUID,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Lets folders and files reference a folder of their own course only.
+  UNIQUE (id, course_id),
+  -- Deleting a folder deletes its subfolders.
+  FOREIGN KEY (parent_id, course_id)
+    REFERENCES public.course_folders(id, course_id) ON DELETE CASCADE,
+  UNIQUE NULLS NOT DISTINCT (course_id, parent_id, name)
+);
+
+CREATE INDEX course_folders_course_id_idx ON public.course_folders (course_id);
+
+-- Folders only exist in the database: stored objects keep their
+-- {user}/{course}/{file} path, so moving a file never copies it.
+ALTER TABLE public.course_files ADD COLUMN folder_id UUID;
+
+ALTER TABLE public.course_files
+  ADD CONSTRAINT course_files_folder_id_fkey
+  FOREIGN KEY (folder_id, course_id)
+  REFERENCES public.course_folders(id, course_id) ON DELETE SET NULL (folder_id);
+
+CREATE INDEX course_files_folder_id_idx ON public.course_files (folder_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.course_folders ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for course_folders
+CREATE POLICY "Users can view their own course folders" 
+ON public.course_folders 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own course folders" 
+ON public.course_folders 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own course folders" 
+ON public.course_folders 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own course folders" 
+ON public.course_folders 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Require two-factor authentication when enrolled"
+ON public.course_folders
+AS RESTRICTIVE
+FOR ALL
+USING (public.has_required_aal());
+
+CREATE TRIGGER update_course_folders_updated_at
+  BEFORE UPDATE ON public.course_folders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create function to refuse moving a folder into itself or its subfolders
+CREATE OR REPLACE FUNCTION public.check_course_folder_cycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NULL OR NEW.parent_id IS NOT DISTINCT FROM OLD.parent_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM public.course_folders WHERE id = NEW.parent_id
+      UNION ALL
+      SELECT f.id, f.parent_id
+      FROM public.course_folders f
+      JOIN ancestors a ON f.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A folder cannot be moved into itself or one of its subfolders';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_course_folder_cycle
+  BEFORE UPDATE OF parent_id ON public.course_folders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_course_folder_cycle();
+
+-- Create function to move the files of a deleted folder to the trash.
+-- Runs for every subfolder deleted along with it; restored files go back
+-- to the root of the course since their folder is gone.
+CREATE OR REPLACE FUNCTION public.trash_course_folder_files()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.course_files SET deleted_at = now()
+  WHERE folder_id = OLD.id AND deleted_at IS NULL;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER trash_course_folder_files
+  BEFORE DELETE ON public.course_folders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.trash_course_folder_files();
+
+-- Broadcast folder changes so open clients stay in sync
+ALTER PUBLICATION supabase_realtime ADD TABLE public.course_folders;
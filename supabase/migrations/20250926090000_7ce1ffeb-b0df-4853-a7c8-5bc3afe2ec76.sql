@@ -0,0 +1,99 @@
+-- Record when the current content of a file was uploaded, apart from when
+-- the file was first added to the course
+ALTER TABLE public.course_files
+  ADD COLUMN uploaded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+UPDATE public.course_files SET uploaded_at = created_at;
+
+-- Create course_file_versions table to keep the previous contents of files.
+-- Their objects stay in storage under the {user}/{course}/ prefix of the file.
+CREATE TABLE public.course_file_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_id UUID NOT NULL REFERENCES public.course_files(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  file_path TEXT NOT NULL,
+  file_size BIGINT,
+  mime_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX course_file_versions_file_id_idx
+  ON public.course_file_versions (file_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.course_file_versions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for course_file_versions
+CREATE POLICY "Users can view their own course file versions" 
+ON public.course_file_versions 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own course file versions" 
+ON public.course_file_versions 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own course file versions" 
+ON public.course_file_versions 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Require two-factor authentication when enrolled"
+ON public.course_file_versions
+AS RESTRICTIVE
+FOR ALL
+USING (public.has_required_aal());
+
+-- Create function to keep the previous content of a file as a version
+-- whenever it is replaced. A new upload is dated now, unless the update
+-- sets uploaded_at itself, as restoring a version does.
+CREATE OR REPLACE FUNCTION public.record_course_file_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.file_path IS NOT DISTINCT FROM NEW.file_path THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.course_file_versions (file_id, user_id, file_path, file_size, mime_type, created_at)
+  VALUES (OLD.id, OLD.user_id, OLD.file_path, OLD.file_size, OLD.mime_type, OLD.uploaded_at);
+
+  IF NEW.uploaded_at IS NOT DISTINCT FROM OLD.uploaded_at THEN
+    NEW.uploaded_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER record_course_file_version
+  BEFORE UPDATE OF file_path ON public.course_files
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_course_file_version();
+
+-- Create function to make a previous version the current content of its
+-- file. The content it replaces is kept as a version in turn.
+CREATE OR REPLACE FUNCTION public.restore_course_file_version(version_id UUID)
+RETURNS public.course_files AS $$
+DECLARE
+  version public.course_file_versions;
+  restored public.course_files;
+BEGIN
+  DELETE FROM public.course_file_versions WHERE id = version_id
+  RETURNING * INTO version;
+
+  IF version.id IS NULL THEN
+    RAISE EXCEPTION 'File version not found';
+  END IF;
+
+  UPDATE public.course_files
+  SET file_path = version.file_path,
+      file_size = version.file_size,
+      mime_type = version.mime_type,
+      uploaded_at = version.created_at
+  WHERE id = version.file_id
+  RETURNING * INTO restored;
+
+  RETURN restored;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
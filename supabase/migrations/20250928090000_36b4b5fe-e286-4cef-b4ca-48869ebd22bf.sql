@@ -0,0 +1,81 @@
+-- Store the SHA-256 of file contents, computed by the client before upload,
+-- to spot the same content uploaded several times
+ALTER TABLE public.course_files ADD COLUMN content_hash TEXT;
+ALTER TABLE public.course_file_versions ADD COLUMN content_hash TEXT;
+
+CREATE INDEX course_files_content_hash_idx
+  ON public.course_files (user_id, content_hash)
+  WHERE content_hash IS NOT NULL;
+
+-- A file linked to another of the same course shares its stored object;
+-- linking from another course copies the object into the course instead,
+-- so objects never outlive the course whose path they are stored under
+CREATE INDEX course_files_file_path_idx ON public.course_files (file_path);
+CREATE INDEX course_file_versions_file_path_idx ON public.course_file_versions (file_path);
+
+-- Paths among `paths` still used by a file, or a version of a file, once
+-- the given files and courses are deleted: those objects must be kept
+CREATE OR REPLACE FUNCTION public.referenced_course_file_paths(
+  paths TEXT[],
+  deleted_file_ids UUID[] DEFAULT '{}',
+  deleted_course_ids UUID[] DEFAULT '{}'
+)
+RETURNS SETOF TEXT AS $$
+  SELECT f.file_path
+  FROM public.course_files f
+  WHERE f.file_path = ANY(paths)
+    AND NOT f.id = ANY(deleted_file_ids)
+    AND NOT f.course_id = ANY(deleted_course_ids)
+  UNION
+  SELECT v.file_path
+  FROM public.course_file_versions v
+  JOIN public.course_files f ON f.id = v.file_id
+  WHERE v.file_path = ANY(paths)
+    AND NOT f.id = ANY(deleted_file_ids)
+    AND NOT f.course_id = ANY(deleted_course_ids);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Keep the hash along with the previous content of a file
+CREATE OR REPLACE FUNCTION public.record_course_file_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.file_path IS NOT DISTINCT FROM NEW.file_path THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.course_file_versions (file_id, user_id, file_path, file_size, mime_type, content_hash, created_at)
+  VALUES (OLD.id, OLD.user_id, OLD.file_path, OLD.file_size, OLD.mime_type, OLD.content_hash, OLD.uploaded_at);
+
+  IF NEW.uploaded_at IS NOT DISTINCT FROM OLD.uploaded_at THEN
+    NEW.uploaded_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.restore_course_file_version(version_id UUID)
+RETURNS public.course_files AS $$
+DECLARE
+  version public.course_file_versions;
+  restored public.course_files;
+BEGIN
+  DELETE FROM public.course_file_versions WHERE id = version_id
+  RETURNING * INTO version;
+
+  IF version.id IS NULL THEN
+    RAISE EXCEPTION 'File version not found';
+  END IF;
+
+  UPDATE public.course_files
+  SET file_path = version.file_path,
+      file_size = version.file_size,
+      mime_type = version.mime_type,
+      content_hash = version.content_hash,
+      uploaded_at = version.created_at
+  WHERE id = version.file_id
+  RETURNING * INTO restored;
+
+  RETURN restored;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,27 @@
+-- Always snapshot a note when one of its revisions is restored, even within
+-- the 10 minute throttle: restoring overwrites the current text, which would
+-- otherwise be lost. A restore is an update to the title and content of an
+-- existing revision, whether it was saved online or replayed from offline.
+CREATE OR REPLACE FUNCTION public.record_course_note_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (OLD.title IS DISTINCT FROM NEW.title OR OLD.content IS DISTINCT FROM NEW.content)
+    AND (
+      EXISTS (
+        SELECT 1 FROM public.course_note_revisions
+        WHERE note_id = OLD.id
+          AND title = NEW.title
+          AND content IS NOT DISTINCT FROM NEW.content
+      )
+      OR NOT EXISTS (
+        SELECT 1 FROM public.course_note_revisions
+        WHERE note_id = OLD.id AND created_at > OLD.updated_at - INTERVAL '10 minutes'
+      )
+    )
+  THEN
+    INSERT INTO public.course_note_revisions (note_id, user_id, title, content, created_at)
+    VALUES (OLD.id, OLD.user_id, OLD.title, OLD.content, OLD.updated_at);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,131 @@
+-- Let search be limited to some kinds of items (NULL searches them all), so
+-- hits of other kinds cannot take up the whole max_results. Terms made only of
+-- stopwords, such as "la" or "de", have no lexemes to match: titles are then
+-- matched as plain substrings instead of returning nothing.
+DROP FUNCTION public.search_everything(TEXT, INTEGER);
+
+CREATE FUNCTION public.search_everything(
+  search_query TEXT,
+  max_results INTEGER DEFAULT 20,
+  kinds TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  kind TEXT,
+  id UUID,
+  course_id UUID,
+  title TEXT,
+  snippet TEXT,
+  color TEXT,
+  rank REAL
+) AS $$
+DECLARE
+  query tsquery;
+  prefix_terms TEXT;
+  pattern TEXT;
+BEGIN
+  -- Every term is matched as a prefix so results show up while typing.
+  SELECT string_agg(quote_literal(lexeme) || ':*', ' & ')
+  INTO prefix_terms
+  FROM unnest(tsvector_to_array(to_tsvector('public.french_unaccent'::regconfig, search_query))) AS lexeme;
+
+  IF prefix_terms IS NULL THEN
+    IF btrim(search_query) = '' THEN
+      RETURN;
+    END IF;
+
+    -- Wildcards typed by the user are matched literally.
+    pattern := '%' || replace(replace(replace(
+      extensions.unaccent(btrim(search_query)), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+
+    RETURN QUERY
+    SELECT * FROM (
+      SELECT 'course'::TEXT, c.id, c.id, c.title, c.title, c.color, 0::REAL
+      FROM public.courses c
+      WHERE c.user_id = auth.uid()
+        AND (kinds IS NULL OR 'course' = ANY(kinds))
+        AND c.deleted_at IS NULL
+        AND extensions.unaccent(c.title) ILIKE pattern
+
+      UNION ALL
+
+      SELECT 'note'::TEXT, n.id, n.course_id, n.title, n.title, c.color, 0::REAL
+      FROM public.course_notes n
+      JOIN public.courses c ON c.id = n.course_id
+      WHERE n.user_id = auth.uid()
+        AND (kinds IS NULL OR 'note' = ANY(kinds))
+        AND n.deleted_at IS NULL
+        AND extensions.unaccent(n.title) ILIKE pattern
+
+      UNION ALL
+
+      SELECT 'file'::TEXT, f.id, f.course_id, f.filename, f.filename, c.color, 0::REAL
+      FROM public.course_files f
+      JOIN public.courses c ON c.id = f.course_id
+      WHERE f.user_id = auth.uid()
+        AND (kinds IS NULL OR 'file' = ANY(kinds))
+        AND f.deleted_at IS NULL
+        AND extensions.unaccent(f.filename) ILIKE pattern
+    ) AS hits
+    LIMIT max_results;
+    RETURN;
+  END IF;
+
+  query := to_tsquery('public.french_unaccent'::regconfig, prefix_terms);
+
+  RETURN QUERY
+  SELECT * FROM (
+    SELECT
+      'course'::TEXT,
+      c.id,
+      c.id,
+      c.title,
+      ts_headline('public.french_unaccent'::regconfig, coalesce(c.description, c.title), query,
+        'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=5'),
+      c.color,
+      ts_rank(to_tsvector('public.french_unaccent'::regconfig, c.title || ' ' || coalesce(c.description, '')), query)
+    FROM public.courses c
+    WHERE c.user_id = auth.uid()
+      AND (kinds IS NULL OR 'course' = ANY(kinds))
+      AND c.deleted_at IS NULL
+      AND to_tsvector('public.french_unaccent'::regconfig, c.title || ' ' || coalesce(c.description, '')) @@ query
+
+    UNION ALL
+
+    SELECT
+      'note'::TEXT,
+      n.id,
+      n.course_id,
+      n.title,
+      ts_headline('public.french_unaccent'::regconfig, coalesce(nullif(n.content, ''), n.title), query,
+        'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=5'),
+      c.color,
+      ts_rank(to_tsvector('public.french_unaccent'::regconfig, n.title || ' ' || coalesce(n.content, '')), query)
+    FROM public.course_notes n
+    JOIN public.courses c ON c.id = n.course_id
+    WHERE n.user_id = auth.uid()
+      AND (kinds IS NULL OR 'note' = ANY(kinds))
+      AND n.deleted_at IS NULL
+      AND to_tsvector('public.french_unaccent'::regconfig, n.title || ' ' || coalesce(n.content, '')) @@ query
+
+    UNION ALL
+
+    SELECT
+      'file'::TEXT,
+      f.id,
+      f.course_id,
+      f.filename,
+      ts_headline('public.french_unaccent'::regconfig, f.filename, query,
+        'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+      c.color,
+      ts_rank(to_tsvector('public.french_unaccent'::regconfig, f.filename), query)
+    FROM public.course_files f
+    JOIN public.courses c ON c.id = f.course_id
+    WHERE f.user_id = auth.uid()
+      AND (kinds IS NULL OR 'file' = ANY(kinds))
+      AND f.deleted_at IS NULL
+      AND to_tsvector('public.french_unaccent'::regconfig, f.filename) @@ query
+  ) AS hits
+  ORDER BY 7 DESC
+  LIMIT max_results;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
@@ -2,6 +2,7 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { VitePWA } from "vite-plugin-pwa";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -13,6 +14,47 @@ export default defineConfig(({ mode }) => ({
     react(),
     mode === 'development' &&
     componentTagger(),
+    VitePWA({
+      strategies: "injectManifest",
+      srcDir: "src",
+      filename: "sw.ts",
+      injectRegister: false,
+      includeAssets: ["favicon.ico", "apple-touch-icon-180x180.png"],
+      manifest: {
+        name: "StudiDash - Organisez vos cours",
+        short_name: "StudiDash",
+        description: "Organisez vos études, notes et fichiers en toute simplicité",
+        lang: "fr",
+        start_url: "/",
+        scope: "/",
+        display: "standalone",
+        theme_color: "#9250fb",
+        background_color: "#f8fafc",
+        icons: [
+          { src: "pwa-192x192.png", sizes: "192x192", type: "image/png" },
+          { src: "pwa-512x512.png", sizes: "512x512", type: "image/png" },
+          {
+            src: "maskable-icon-512x512.png",
+            sizes: "512x512",
+            type: "image/png",
+            purpose: "maskable",
+          },
+        ],
+        share_target: {
+          action: "/share-target",
+          method: "POST",
+          enctype: "multipart/form-data",
+          params: {
+            title: "title",
+            text: "text",
+            files: [{ name: "files", accept: ["application/pdf", ".pdf"] }],
+          },
+        },
+      },
+      injectManifest: {
+        globPatterns: ["**/*.{js,css,html,ico,svg,png,woff2}"],
+      },
+    }),
   ].filter(Boolean),
   resolve: {
     alias: {